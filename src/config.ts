@@ -24,11 +24,21 @@ const LEGACY_CONFIG_FILE_PATH = path.join(
 const OLD_CONFIG_FILE_NAME = ".ziit.cfg";
 const OLD_CONFIG_FILE_PATH = path.join(os.homedir(), OLD_CONFIG_FILE_NAME);
 
+const API_KEY_SECRET = "ziit.apiKey";
+export const DEFAULT_INSTANCE = "default";
+const SYNCED_SETTINGS = ["baseUrl"] as const;
+
+let secretStorage: vscode.SecretStorage | undefined;
+
 interface ZiitConfig {
   apiKey?: string;
   baseUrl?: string;
 }
 
+interface InstanceProfile {
+  baseUrl?: string;
+}
+
 async function ensureConfigDir(): Promise<void> {
   try {
     await fs.mkdir(CONFIG_DIR, { recursive: true });
@@ -199,9 +209,133 @@ async function updateConfigValue<T>(
   );
 }
 
-export async function setApiKey(): Promise<void> {
+function isApiKeySharedWithConfigFile(): boolean {
+  return vscode.workspace
+    .getConfiguration("ziit")
+    .get<boolean>("shareApiKeyWithConfigFile", false);
+}
+
+async function writeApiKeyToConfigFile(
+  apiKey: string | undefined,
+): Promise<void> {
+  let currentConfig: ZiitConfig = {};
+  try {
+    currentConfig = await readConfigFile();
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      log(`Error reading config file before update: ${error.message}`);
+      return;
+    }
+  }
+  if (currentConfig.apiKey === apiKey) return;
+  const { apiKey: _removed, ...rest } = currentConfig;
+  await writeConfigFile(apiKey ? { ...rest, apiKey } : rest);
+}
+
+export async function migrateApiKeyToSecretStorage(): Promise<void> {
+  if (!secretStorage) return;
+
+  const vscodeConfig = vscode.workspace.getConfiguration("ziit");
+  const inspect = vscodeConfig.inspect<string>("apiKey");
+  let fileApiKey: string | undefined;
+  try {
+    fileApiKey = (await readConfigFile()).apiKey;
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      log(`Error reading config file during API key migration: ${error.message}`);
+    }
+  }
+
+  // A workspace may come from a cloned repository, so its settings must never
+  // replace the stored key, and its settings file is left untouched.
+  if (inspect?.workspaceValue !== undefined) {
+    log(
+      "Ignoring ziit.apiKey in workspace settings, it only applies to user settings",
+    );
+  }
+  const settingsApiKey = inspect?.globalValue;
+  if (!settingsApiKey && !fileApiKey) return;
+
+  // A key entered in the settings is always the newest one, e.g. after it was
+  // rotated, so it replaces the stored secret. The config file may be written
+  // by other tools and only fills in a missing secret.
+  const storedApiKey = await secretStorage.get(API_KEY_SECRET);
+  if (settingsApiKey && settingsApiKey !== storedApiKey) {
+    await secretStorage.store(API_KEY_SECRET, settingsApiKey);
+    if (isApiKeySharedWithConfigFile()) {
+      await writeApiKeyToConfigFile(settingsApiKey);
+    }
+    log(
+      storedApiKey
+        ? "Replaced API key in VS Code secret storage with the one from settings"
+        : "Moved API key into VS Code secret storage",
+    );
+  } else if (!storedApiKey && fileApiKey) {
+    await secretStorage.store(API_KEY_SECRET, fileApiKey);
+    log("Moved API key into VS Code secret storage");
+  }
+
+  if (inspect?.globalValue !== undefined) {
+    await vscodeConfig.update(
+      "apiKey",
+      undefined,
+      vscode.ConfigurationTarget.Global,
+    );
+    log("Removed plaintext API key from user settings");
+  }
+  if (fileApiKey && !isApiKeySharedWithConfigFile()) {
+    await writeApiKeyToConfigFile(undefined);
+    log(`Removed plaintext API key from ${CONFIG_FILE_PATH}`);
+  }
+}
+
+function getApiKeySecretName(instance: string): string {
+  return instance === DEFAULT_INSTANCE
+    ? API_KEY_SECRET
+    : `${API_KEY_SECRET}.${instance}`;
+}
+
+function getInstanceProfiles(): Record<string, InstanceProfile> {
+  return vscode.workspace
+    .getConfiguration("ziit")
+    .get<Record<string, InstanceProfile>>("instances", {});
+}
+
+export function getInstanceNames(): string[] {
+  return [
+    DEFAULT_INSTANCE,
+    ...Object.keys(getInstanceProfiles()).filter(
+      (name) => name !== DEFAULT_INSTANCE,
+    ),
+  ];
+}
+
+export async function pickInstance(
+  placeHolder: string,
+): Promise<string | undefined> {
+  const names = getInstanceNames();
+  if (names.length === 1) return DEFAULT_INSTANCE;
+  const items = await Promise.all(
+    names.map(async (name) => ({
+      label: name,
+      description: await getBaseUrl(name),
+    })),
+  );
+  const picked = await vscode.window.showQuickPick(items, { placeHolder });
+  return picked?.label;
+}
+
+export async function setApiKey(instance?: string): Promise<void> {
+  instance ??= await pickInstance("Select the Ziit instance for this API key");
+  if (!instance) {
+    log("API key setting cancelled");
+    return;
+  }
   const apiKey = await vscode.window.showInputBox({
-    prompt: "Enter your Ziit API key",
+    prompt:
+      instance === DEFAULT_INSTANCE
+        ? "Enter your Ziit API key"
+        : `Enter your Ziit API key for ${instance}`,
     placeHolder: "API Key",
     password: true,
   });
@@ -209,7 +343,15 @@ export async function setApiKey(): Promise<void> {
     log("API key setting cancelled");
     return;
   }
-  await updateConfigValue("apiKey", apiKey);
+  if (!secretStorage) {
+    log("Secret storage not initialized, cannot store API key");
+    return;
+  }
+  await secretStorage.store(getApiKeySecretName(instance), apiKey);
+  if (instance === DEFAULT_INSTANCE && isApiKeySharedWithConfigFile()) {
+    await writeApiKeyToConfigFile(apiKey);
+  }
+  log(`API key for instance "${instance}" updated in VS Code secret storage`);
   vscode.window.showInformationMessage("Ziit API key has been updated");
 }
 
@@ -228,15 +370,97 @@ export async function setBaseUrl(): Promise<void> {
   vscode.window.showInformationMessage("Ziit instance URL has been updated");
 }
 
-export async function getApiKey(): Promise<string | undefined> {
-  return getConfigValue<string>("apiKey");
+export async function getApiKey(
+  instance: string = DEFAULT_INSTANCE,
+): Promise<string | undefined> {
+  const apiKey = await secretStorage?.get(getApiKeySecretName(instance));
+  if (apiKey) return apiKey;
+
+  if (instance === DEFAULT_INSTANCE && isApiKeySharedWithConfigFile()) {
+    try {
+      return (await readConfigFile()).apiKey;
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        log(`Error reading API key from config file: ${error.message}`);
+      }
+    }
+  }
+  return undefined;
 }
 
-export async function getBaseUrl(): Promise<string> {
+export function onDidChangeApiKey(
+  listener: () => void,
+): vscode.Disposable | undefined {
+  return secretStorage?.onDidChange((event) => {
+    if (event.key.startsWith(API_KEY_SECRET)) {
+      listener();
+    }
+  });
+}
+
+export async function shareApiKeyWithConfigFile(): Promise<void> {
+  if (!isApiKeySharedWithConfigFile()) return;
+  const apiKey = await secretStorage?.get(API_KEY_SECRET);
+  if (apiKey) {
+    await writeApiKeyToConfigFile(apiKey);
+  }
+}
+
+export async function getBaseUrl(
+  instance: string = DEFAULT_INSTANCE,
+): Promise<string> {
+  if (instance !== DEFAULT_INSTANCE) {
+    const profile = getInstanceProfiles()[instance];
+    if (profile?.baseUrl) return profile.baseUrl;
+    log(`Instance "${instance}" has no baseUrl, using the default instance`);
+  }
   return (await getConfigValue<string>("baseUrl")) ?? "https://ziit.app";
 }
 
-export async function initializeAndSyncConfig(): Promise<void> {
+function getSecondsSetting(
+  key: string,
+  defaultValue: number,
+  min: number,
+  max: number,
+): number {
+  const value = vscode.workspace
+    .getConfiguration("ziit")
+    .get<number>(key, defaultValue);
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    log(`Invalid value for ziit.${key}, using ${defaultValue} seconds`);
+    return defaultValue;
+  }
+  const clamped = Math.min(max, Math.max(min, value));
+  if (clamped !== value) {
+    log(
+      `ziit.${key} must be between ${min} and ${max} seconds, using ${clamped}`,
+    );
+  }
+  return clamped;
+}
+
+export function getHeartbeatIntervalMs(): number {
+  return getSecondsSetting("heartbeatInterval", 120, 30, 3600) * 1000;
+}
+
+export function getIdleTimeoutMs(): number {
+  return getSecondsSetting("idleTimeout", 900, 60, 24 * 3600) * 1000;
+}
+
+export type TrackingMode = "remote" | "local";
+
+export function getTrackingMode(): TrackingMode {
+  return vscode.workspace
+    .getConfiguration("ziit")
+    .get<TrackingMode>("mode", "remote") === "local"
+    ? "local"
+    : "remote";
+}
+
+export async function initializeAndSyncConfig(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  secretStorage = context.secrets;
   log(
     `Initializing or syncing config file (${CONFIG_FILE_PATH}) with VS Code settings...`,
   );
@@ -258,7 +482,7 @@ export async function initializeAndSyncConfig(): Promise<void> {
   if (fileNeedsCreation) {
     log("Populating new config file from current VS Code settings...");
     const initialConfig: ZiitConfig = {};
-    for (const key of ["apiKey", "baseUrl"]) {
+    for (const key of SYNCED_SETTINGS) {
       const value = vscodeConfig.get(key);
       if (value !== undefined) {
         initialConfig[key as keyof ZiitConfig] = value as any;
@@ -269,7 +493,7 @@ export async function initializeAndSyncConfig(): Promise<void> {
     log(`Config file created and populated (${CONFIG_FILE_PATH})`);
   }
   let updated = false;
-  for (const key of ["apiKey", "baseUrl"]) {
+  for (const key of SYNCED_SETTINGS) {
     const fileValue = fileConfig[key as keyof ZiitConfig];
     const vscodeValue = vscodeConfig.get(key);
     const inspect = vscodeConfig.inspect(key);
@@ -295,4 +519,5 @@ export async function initializeAndSyncConfig(): Promise<void> {
   } else {
     log("No VS Code settings needed syncing.");
   }
+  await migrateApiKeyToSecretStorage();
 }
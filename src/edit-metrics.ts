@@ -0,0 +1,206 @@
+import * as vscode from "vscode";
+import type { Heartbeat } from "./heartbeat";
+
+export type InsertionKind = "typed" | "pasted" | "generated";
+
+export type InsertionShares = Record<InsertionKind, number>;
+
+export type EditMetrics = Pick<
+  Heartbeat,
+  "linesAdded" | "linesRemoved" | "insertedCharacters" | "insertionShares"
+>;
+
+interface EditCounts {
+  linesAdded: number;
+  linesRemoved: number;
+  inserted: Record<InsertionKind, number>;
+}
+
+const MAX_TYPED_LENGTH = 2;
+const MAX_COMPLETION_LENGTH = 20;
+/** Closing brackets and comment leaders that editors insert on Enter. */
+const EDITOR_FILLER_LINE = /^(?:[)\]}]+[;,]?|\/\/+|\/?\*+\/?|#+|--)?$/;
+
+function countNewlines(text: string): number {
+  return text.split("\n").length - 1;
+}
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n/g, "\n");
+}
+
+function isEditorFiller(text: string): boolean {
+  return text
+    .split(/\r?\n/)
+    .every((line) => EDITOR_FILLER_LINE.test(line.trim()));
+}
+
+/**
+ * Single characters, auto-closed pairs and what the editor inserts on Enter
+ * (indentation, closing brackets, comment leaders) are typed. Other text is
+ * pasted when it matches the clipboard. Multi-line text and text longer than
+ * a word completion is inserted in bulk, for example by an AI assistant.
+ */
+export function classifyInsertion(
+  text: string,
+  clipboard: string | undefined,
+): InsertionKind {
+  if (text.length <= MAX_TYPED_LENGTH || isEditorFiller(text)) {
+    return "typed";
+  }
+  if (
+    clipboard &&
+    normalizeLineEndings(text) === normalizeLineEndings(clipboard)
+  ) {
+    return "pasted";
+  }
+  if (text.includes("\n") || text.length > MAX_COMPLETION_LENGTH) {
+    return "generated";
+  }
+  return "typed";
+}
+
+function roundShare(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toShares(inserted: Record<InsertionKind, number>): InsertionShares {
+  const total = inserted.typed + inserted.pasted + inserted.generated;
+  return {
+    typed: roundShare(inserted.typed / total),
+    pasted: roundShare(inserted.pasted / total),
+    generated: roundShare(inserted.generated / total),
+  };
+}
+
+function addOptional(
+  a: number | undefined,
+  b: number | undefined,
+): number | undefined {
+  return a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+}
+
+/**
+ * Folds the edit metrics of a heartbeat that is dropped while merging into
+ * the one that is kept, so no edits get lost.
+ */
+export function mergeEditMetrics(
+  dropped: Heartbeat,
+  kept: Heartbeat,
+): Heartbeat {
+  const linesAdded = addOptional(dropped.linesAdded, kept.linesAdded);
+  const linesRemoved = addOptional(dropped.linesRemoved, kept.linesRemoved);
+  if (linesAdded === undefined && linesRemoved === undefined) {
+    return kept;
+  }
+
+  const merged: Heartbeat = { ...kept, linesAdded, linesRemoved };
+  const droppedCharacters = dropped.insertedCharacters ?? 0;
+  const keptCharacters = kept.insertedCharacters ?? 0;
+  const insertedCharacters = droppedCharacters + keptCharacters;
+  if (insertedCharacters > 0) {
+    const share = (kind: InsertionKind) =>
+      ((dropped.insertionShares?.[kind] ?? 0) * droppedCharacters +
+        (kept.insertionShares?.[kind] ?? 0) * keptCharacters) /
+      insertedCharacters;
+    merged.insertedCharacters = insertedCharacters;
+    merged.insertionShares = {
+      typed: roundShare(share("typed")),
+      pasted: roundShare(share("pasted")),
+      generated: roundShare(share("generated")),
+    };
+  }
+  return merged;
+}
+
+/**
+ * Accumulates the lines added and removed per document between two
+ * heartbeats, along with how the inserted text was authored.
+ */
+export class EditMetricsTracker {
+  private counts = new Map<string, EditCounts>();
+  private pendingReads = new Map<string, Promise<void>>();
+
+  public record(uri: vscode.Uri, event: vscode.TextDocumentChangeEvent): void {
+    if (event.contentChanges.length === 0) return;
+    const counts = this.getCounts(uri);
+    for (const change of event.contentChanges) {
+      counts.linesAdded += countNewlines(change.text);
+      counts.linesRemoved += change.range.end.line - change.range.start.line;
+    }
+
+    // Undo and redo restore earlier edits, so they say nothing about who wrote
+    // the text.
+    if (event.reason !== undefined) return;
+    const untyped: string[] = [];
+    for (const { text } of event.contentChanges) {
+      if (!text) continue;
+      if (classifyInsertion(text, undefined) === "typed") {
+        counts.inserted.typed += text.length;
+      } else {
+        untyped.push(text);
+      }
+    }
+    if (untyped.length === 0) return;
+
+    const key = uri.toString();
+    const read = vscode.env.clipboard.readText().then(
+      (clipboard) => this.recordInsertions(uri, untyped, clipboard),
+      () => this.recordInsertions(uri, untyped, undefined),
+    );
+    const pending = Promise.all([this.pendingReads.get(key), read]).then(() => {
+      if (this.pendingReads.get(key) === pending) {
+        this.pendingReads.delete(key);
+      }
+    });
+    this.pendingReads.set(key, pending);
+  }
+
+  /** Waits for pending clipboard reads so every insertion is counted. */
+  public async take(uri: vscode.Uri): Promise<EditMetrics | undefined> {
+    const key = uri.toString();
+    await this.pendingReads.get(key);
+    const counts = this.counts.get(key);
+    this.counts.delete(key);
+    if (!counts) return undefined;
+
+    const metrics: EditMetrics = {
+      linesAdded: counts.linesAdded,
+      linesRemoved: counts.linesRemoved,
+    };
+    const insertedCharacters =
+      counts.inserted.typed +
+      counts.inserted.pasted +
+      counts.inserted.generated;
+    if (insertedCharacters > 0) {
+      metrics.insertedCharacters = insertedCharacters;
+      metrics.insertionShares = toShares(counts.inserted);
+    }
+    return metrics;
+  }
+
+  private recordInsertions(
+    uri: vscode.Uri,
+    insertions: string[],
+    clipboard: string | undefined,
+  ): void {
+    const counts = this.getCounts(uri);
+    for (const text of insertions) {
+      counts.inserted[classifyInsertion(text, clipboard)] += text.length;
+    }
+  }
+
+  private getCounts(uri: vscode.Uri): EditCounts {
+    const key = uri.toString();
+    let counts = this.counts.get(key);
+    if (!counts) {
+      counts = {
+        linesAdded: 0,
+        linesRemoved: 0,
+        inserted: { typed: 0, pasted: 0, generated: 0 },
+      };
+      this.counts.set(key, counts);
+    }
+    return counts;
+  }
+}
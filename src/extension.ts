@@ -2,10 +2,26 @@ import * as vscode from "vscode";
 import { log, showOutputChannel } from "./log";
 import { HeartbeatManager } from "./heartbeat";
 import { StatusBarManager } from "./status-bar";
-import { setApiKey, setBaseUrl, initializeAndSyncConfig } from "./config";
+import { StatsViewProvider } from "./stats-view";
+import { GoalManager } from "./goals";
+import { PomodoroManager } from "./pomodoro";
+import { generateReport } from "./report";
+import { selectWorkspaceInstance } from "./instances";
+import {
+  getBaseUrl,
+  setApiKey,
+  setBaseUrl,
+  initializeAndSyncConfig,
+  migrateApiKeyToSecretStorage,
+  onDidChangeApiKey,
+  pickInstance,
+  shareApiKeyWithConfigFile
+} from "./config";
+
+let activeHeartbeatManager: HeartbeatManager | undefined;
 
 export async function activate(context: vscode.ExtensionContext) {
-  await initializeAndSyncConfig();
+  await initializeAndSyncConfig(context);
 
   log("Ziit extension activated");
 
@@ -13,23 +29,48 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(statusBarManager);
 
   const heartbeatManager = new HeartbeatManager(context, statusBarManager);
+  activeHeartbeatManager = heartbeatManager;
   context.subscriptions.push(heartbeatManager);
 
+  const goalManager = new GoalManager(
+    context,
+    heartbeatManager,
+    statusBarManager
+  );
+  context.subscriptions.push(goalManager);
+
+  const pomodoroManager = new PomodoroManager(context, heartbeatManager);
+  context.subscriptions.push(pomodoroManager);
+
   heartbeatManager.fetchDailySummary();
 
+  const statsViewProvider = new StatsViewProvider(context, heartbeatManager);
+  context.subscriptions.push(statsViewProvider);
+
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration("ziit.apiKey")) {
-        log("API key changed in settings, validating...");
+        log("API key changed in settings, moving it to secret storage...");
+        migrateApiKeyToSecretStorage();
+      }
+      if (event.affectsConfiguration("ziit.shareApiKeyWithConfigFile")) {
+        shareApiKeyWithConfigFile();
       }
     })
   );
 
+  const apiKeyListener = onDidChangeApiKey(() => {
+    log("API key changed, validating...");
+    heartbeatManager.fetchDailySummary();
+  });
+  if (apiKeyListener) {
+    context.subscriptions.push(apiKeyListener);
+  }
+
   const openDashboardCommand = vscode.commands.registerCommand(
     "ziit.openDashboard",
     async () => {
-      const config = vscode.workspace.getConfiguration("ziit");
-      const baseUrl = config.get<string>("baseUrl");
+      const baseUrl = await getBaseUrl(heartbeatManager.activeInstanceName);
       if (baseUrl) {
         vscode.env.openExternal(vscode.Uri.parse(`${baseUrl}/`));
       } else {
@@ -59,14 +100,134 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  const selectInstanceCommand = vscode.commands.registerCommand(
+    "ziit.selectInstance",
+    async () => {
+      await selectWorkspaceInstance();
+    }
+  );
+
+  const refreshStatsCommand = vscode.commands.registerCommand(
+    "ziit.refreshStats",
+    async () => {
+      await statsViewProvider.refresh();
+    }
+  );
+
+  const selectStatsTimeRangeCommand = vscode.commands.registerCommand(
+    "ziit.selectStatsTimeRange",
+    async () => {
+      await statsViewProvider.selectTimeRange();
+    }
+  );
+
+  const startPomodoroCommand = vscode.commands.registerCommand(
+    "ziit.startPomodoro",
+    () => {
+      pomodoroManager.start();
+    }
+  );
+
+  const skipPomodoroCommand = vscode.commands.registerCommand(
+    "ziit.skipPomodoro",
+    () => {
+      pomodoroManager.skip();
+    }
+  );
+
+  const stopPomodoroCommand = vscode.commands.registerCommand(
+    "ziit.stopPomodoro",
+    () => {
+      pomodoroManager.stop();
+    }
+  );
+
+  const generateReportCommand = vscode.commands.registerCommand(
+    "ziit.generateReport",
+    async () => {
+      await generateReport(heartbeatManager);
+    }
+  );
+
+  const uploadLocalHeartbeatsCommand = vscode.commands.registerCommand(
+    "ziit.uploadLocalHeartbeats",
+    async () => {
+      const count = heartbeatManager.localHeartbeatsToUpload;
+      if (count === 0) {
+        vscode.window.showInformationMessage(
+          "There are no local heartbeats left to upload."
+        );
+        return;
+      }
+      const instance = await pickInstance(
+        "Select the Ziit instance to upload the local heartbeats to"
+      );
+      if (!instance) return;
+      const baseUrl = await getBaseUrl(instance);
+      const choice = await vscode.window.showWarningMessage(
+        `Upload ${count} locally recorded heartbeats to ${baseUrl}?`,
+        { modal: true },
+        "Upload"
+      );
+      if (choice !== "Upload") return;
+      try {
+        const { uploaded, rejected } = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Ziit: Uploading local heartbeats…"
+          },
+          () => heartbeatManager.uploadLocalHeartbeats(instance)
+        );
+        if (rejected > 0) {
+          vscode.window.showWarningMessage(
+            `Uploaded ${uploaded} local heartbeats to Ziit. The server rejected ${rejected}, which were set aside and can be sent again with "Ziit: Resend Rejected Heartbeats".`
+          );
+        } else {
+          vscode.window.showInformationMessage(
+            `Uploaded ${uploaded} local heartbeats to Ziit.`
+          );
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`Error uploading local heartbeats: ${message}`);
+        vscode.window.showErrorMessage(
+          `Could not upload local heartbeats: ${message}. Run the command again to continue where it stopped.`
+        );
+      }
+    }
+  );
+
+  const resendRejectedHeartbeatsCommand = vscode.commands.registerCommand(
+    "ziit.resendRejectedHeartbeats",
+    async () => {
+      const count = await heartbeatManager.resendRejectedHeartbeats();
+      vscode.window.showInformationMessage(
+        count > 0
+          ? `Moved ${count} rejected heartbeats back to the offline queue. Any the server rejects again are set aside again.`
+          : "There are no rejected heartbeats to resend."
+      );
+    }
+  );
+
   context.subscriptions.push(
     openDashboardCommand,
     setApiKeyCommand,
     setBaseUrlCommand,
-    showOutputCommand
+    showOutputCommand,
+    selectInstanceCommand,
+    refreshStatsCommand,
+    selectStatsTimeRangeCommand,
+    startPomodoroCommand,
+    skipPomodoroCommand,
+    stopPomodoroCommand,
+    generateReportCommand,
+    uploadLocalHeartbeatsCommand,
+    resendRejectedHeartbeatsCommand
   );
 }
 
-export function deactivate() {
+export async function deactivate() {
   log("Ziit extension deactivated");
+  await activeHeartbeatManager?.flushOnShutdown();
+  activeHeartbeatManager = undefined;
 }
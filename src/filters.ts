@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+import { matchesGlob } from "./glob";
+
+function toGlobPath(fsPath: string): string {
+  return fsPath.split(path.sep).join("/").replace(/^\/+/, "");
+}
+
+function expandHome(pattern: string): string {
+  if (pattern === "~" || pattern.startsWith("~/")) {
+    return path.join(os.homedir(), pattern.slice(1));
+  }
+  return pattern;
+}
+
+export function matchesPathPattern(
+  fileUri: vscode.Uri,
+  pattern: string,
+): boolean {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileUri);
+  const expanded = expandHome(pattern);
+  if (path.isAbsolute(expanded) || !workspaceFolder) {
+    return matchesGlob(toGlobPath(fileUri.fsPath), toGlobPath(expanded));
+  }
+  const relativePath = path.relative(
+    workspaceFolder.uri.fsPath,
+    fileUri.fsPath,
+  );
+  return matchesGlob(toGlobPath(relativePath), expanded);
+}
+
+function findMatchingPattern(
+  fileUri: vscode.Uri,
+  patterns: readonly string[],
+): string | undefined {
+  return patterns.find((pattern) => matchesPathPattern(fileUri, pattern));
+}
+
+/**
+ * Returns why a file must not be tracked according to `ziit.include` and
+ * `ziit.exclude`, or `undefined` when it may be tracked.
+ */
+export function getFileExclusionReason(fileUri: vscode.Uri): string | undefined {
+  const config = vscode.workspace.getConfiguration("ziit", fileUri);
+  const include = config.get<string[]>("include", []);
+  const exclude = config.get<string[]>("exclude", []);
+
+  if (include.length > 0 && !findMatchingPattern(fileUri, include)) {
+    return "does not match any ziit.include pattern";
+  }
+
+  const excludedBy = findMatchingPattern(fileUri, exclude);
+  if (excludedBy) {
+    return `matches ziit.exclude pattern "${excludedBy}"`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns why a project must not be tracked according to
+ * `ziit.includeProjects` and `ziit.excludeProjects`, or `undefined` when it
+ * may be tracked.
+ */
+export function getProjectExclusionReason(
+  project: string,
+  fileUri: vscode.Uri,
+): string | undefined {
+  const config = vscode.workspace.getConfiguration("ziit", fileUri);
+  const includeProjects = config.get<string[]>("includeProjects", []);
+  const excludeProjects = config.get<string[]>("excludeProjects", []);
+
+  if (
+    includeProjects.length > 0 &&
+    !includeProjects.some((pattern) => matchesGlob(project, pattern))
+  ) {
+    return `project "${project}" is not in ziit.includeProjects`;
+  }
+
+  const excludedBy = excludeProjects.find((pattern) =>
+    matchesGlob(project, pattern),
+  );
+  if (excludedBy) {
+    return `project "${project}" matches ziit.excludeProjects entry "${excludedBy}"`;
+  }
+
+  return undefined;
+}
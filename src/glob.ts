@@ -0,0 +1,80 @@
+const regExpCache = new Map<string, RegExp>();
+
+function escapeRegExp(char: string): string {
+  return /[.+^$()|[\]{}\\]/.test(char) ? `\\${char}` : char;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regExpCache.get(pattern);
+  if (cached) return cached;
+
+  let normalized = pattern.replace(/\\/g, "/").replace(/^\.?\//, "");
+  if (normalized.endsWith("/")) normalized = normalized.slice(0, -1);
+  if (!normalized.includes("/")) normalized = `**/${normalized}`;
+
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === "*") {
+      if (normalized[i + 1] === "*") {
+        const atSegmentStart = i === 0 || normalized[i - 1] === "/";
+        const atSegmentEnd =
+          i + 2 === normalized.length || normalized[i + 2] === "/";
+        if (atSegmentStart && atSegmentEnd) {
+          if (normalized[i + 2] === "/") {
+            source += "(?:.*/)?";
+            i += 2;
+          } else {
+            source += ".*";
+            i += 1;
+          }
+          continue;
+        }
+        i += 1;
+      }
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && !inGroup && normalized.includes("}", i + 1)) {
+      // Braces without a closing partner are matched literally.
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  regExpCache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Matches a slash separated relative path against a glob. A pattern also
+ * matches everything below a matching folder, so `scratch` or
+ * `packages/legacy` cover every file inside those folders. Patterns without
+ * a slash match at any depth, like in `.gitignore`.
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const regExp = globToRegExp(pattern);
+  const segments = relativePath.replace(/\\/g, "/").split("/");
+  for (let length = segments.length; length > 0; length--) {
+    if (regExp.test(segments.slice(0, length).join("/"))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function matchesAnyGlob(
+  relativePath: string,
+  patterns: readonly string[],
+): boolean {
+  return patterns.some((pattern) => matchesGlob(relativePath, pattern));
+}
@@ -0,0 +1,260 @@
+import * as vscode from "vscode";
+import { log } from "./log";
+import type { HeartbeatManager } from "./heartbeat";
+import type { StatusBarManager } from "./status-bar";
+import {
+  aggregateSummaries,
+  formatDuration,
+  toDateKey,
+  type StatsBreakdown,
+  type StatsResponse,
+} from "./stats";
+
+export type GoalPeriod = "daily" | "weekly";
+export type GoalProgressStyle = "percentage" | "bar";
+
+export interface Goal {
+  period: GoalPeriod;
+  minutes: number;
+  project?: string;
+  language?: string;
+}
+
+export interface GoalProgress {
+  goal: Goal;
+  seconds: number;
+  ratio: number;
+}
+
+interface GoalStreak {
+  days: number;
+  lastDate: string;
+}
+
+const REACHED_STATE_KEY = "ziit.goalsReached";
+const STREAK_STATE_KEY = "ziit.goalStreak";
+const WEEKLY_REFRESH_MILLISECONDS = 5 * 60 * 1000;
+const PROGRESS_BAR_LENGTH = 5;
+
+function toWeekKey(date: Date): string {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return `week-${toDateKey(monday)}`;
+}
+
+function getPeriodKey(period: GoalPeriod, date: Date = new Date()): string {
+  return period === "daily" ? toDateKey(date) : toWeekKey(date);
+}
+
+function getGoalKey(goal: Goal): string {
+  return [goal.period, goal.minutes, goal.project ?? "", goal.language ?? ""]
+    .map((part) => encodeURIComponent(String(part)))
+    .join(":");
+}
+
+export function describeGoal(goal: Goal): string {
+  const scope = goal.project
+    ? ` on ${goal.project}`
+    : goal.language
+      ? ` in ${goal.language}`
+      : "";
+  const period = goal.period === "daily" ? "Daily" : "Weekly";
+  return `${period} goal of ${formatDuration(goal.minutes * 60)}${scope}`;
+}
+
+function isValidGoal(goal: unknown): goal is Goal {
+  const candidate = goal as Goal;
+  return (
+    !!candidate &&
+    (candidate.period === "daily" || candidate.period === "weekly") &&
+    typeof candidate.minutes === "number" &&
+    candidate.minutes > 0
+  );
+}
+
+export function getGoals(): Goal[] {
+  const goals = vscode.workspace
+    .getConfiguration("ziit")
+    .get<unknown[]>("goals", []);
+  return goals.filter((goal): goal is Goal => {
+    if (isValidGoal(goal)) return true;
+    log(`Ignoring invalid goal in ziit.goals: ${JSON.stringify(goal)}`);
+    return false;
+  });
+}
+
+function getTrackedSeconds(goal: Goal, breakdown: StatsBreakdown): number {
+  if (goal.project) return breakdown.projects[goal.project] ?? 0;
+  if (goal.language) return breakdown.languages[goal.language] ?? 0;
+  return breakdown.totalSeconds;
+}
+
+export function formatGoalProgress(
+  ratio: number,
+  style: GoalProgressStyle,
+): string {
+  if (style === "bar") {
+    const filled = Math.min(
+      PROGRESS_BAR_LENGTH,
+      Math.floor(ratio * PROGRESS_BAR_LENGTH),
+    );
+    return "▰".repeat(filled) + "▱".repeat(PROGRESS_BAR_LENGTH - filled);
+  }
+  return `${Math.floor(ratio * 100)}%`;
+}
+
+/**
+ * Tracks progress towards the goals in `ziit.goals` using the stats the
+ * heartbeat manager fetches, shows it in the status bar and keeps a streak of
+ * days on which every daily goal was reached.
+ */
+export class GoalManager {
+  private dailyStats: StatsBreakdown | undefined;
+  private weeklyStats: StatsBreakdown | undefined;
+  private weeklyStatsFetchedAt: number = 0;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private heartbeatManager: HeartbeatManager,
+    private statusBar: StatusBarManager,
+  ) {
+    this.disposables.push(
+      heartbeatManager.onDidUpdateStats((stats) =>
+        this.handleDailyStats(stats),
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration("ziit.goals") ||
+          event.affectsConfiguration("ziit.goalProgressStyle")
+        ) {
+          this.weeklyStatsFetchedAt = 0;
+          this.update();
+          this.refreshWeeklyStats();
+        }
+      }),
+    );
+  }
+
+  public get streak(): number {
+    const streak = this.context.globalState.get<GoalStreak>(STREAK_STATE_KEY);
+    if (!streak) return 0;
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const isCurrent =
+      streak.lastDate === toDateKey(new Date()) ||
+      streak.lastDate === toDateKey(yesterday);
+    return isCurrent ? streak.days : 0;
+  }
+
+  public getProgress(): GoalProgress[] {
+    const progress: GoalProgress[] = [];
+    for (const goal of getGoals()) {
+      const stats =
+        goal.period === "daily" ? this.dailyStats : this.weeklyStats;
+      if (!stats) continue;
+      const seconds = getTrackedSeconds(goal, stats);
+      progress.push({ goal, seconds, ratio: seconds / (goal.minutes * 60) });
+    }
+    return progress;
+  }
+
+  private handleDailyStats(stats: StatsResponse): void {
+    this.dailyStats = aggregateSummaries(stats.summaries ?? []);
+    this.update();
+    this.refreshWeeklyStats();
+  }
+
+  private async refreshWeeklyStats(): Promise<void> {
+    const now = Date.now();
+    if (
+      now - this.weeklyStatsFetchedAt < WEEKLY_REFRESH_MILLISECONDS ||
+      !getGoals().some((goal) => goal.period === "weekly")
+    ) {
+      return;
+    }
+    this.weeklyStatsFetchedAt = now;
+    try {
+      const stats = await this.heartbeatManager.fetchStats("week");
+      if (!stats) return;
+      this.weeklyStats = aggregateSummaries(stats.summaries ?? []);
+      this.update();
+    } catch (error) {
+      log(
+        `Error fetching weekly stats for goals: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  private update(): void {
+    const progress = this.getProgress();
+    for (const entry of progress) {
+      if (entry.ratio >= 1) {
+        this.markReached(entry.goal);
+      }
+    }
+    this.updateStreak(progress);
+
+    const primary = progress[0];
+    if (!primary) {
+      this.statusBar.setGoalProgress(undefined, []);
+      return;
+    }
+    const style = vscode.workspace
+      .getConfiguration("ziit")
+      .get<GoalProgressStyle>("goalProgressStyle", "percentage");
+    const lines = progress.map(
+      (entry) =>
+        `${describeGoal(entry.goal)}: ${formatDuration(entry.seconds)} (${formatGoalProgress(entry.ratio, "percentage")})`,
+    );
+    const streak = this.streak;
+    if (streak > 0) {
+      lines.push(`Streak: ${streak} ${streak === 1 ? "day" : "days"}`);
+    }
+    this.statusBar.setGoalProgress(
+      formatGoalProgress(primary.ratio, style),
+      lines,
+    );
+  }
+
+  private markReached(goal: Goal): void {
+    const reached =
+      this.context.globalState.get<Record<string, string>>(REACHED_STATE_KEY) ??
+      {};
+    const goalKey = getGoalKey(goal);
+    const periodKey = getPeriodKey(goal.period);
+    if (reached[goalKey] === periodKey) return;
+
+    reached[goalKey] = periodKey;
+    this.context.globalState.update(REACHED_STATE_KEY, reached);
+    log(`${describeGoal(goal)} reached`);
+    vscode.window.showInformationMessage(`${describeGoal(goal)} reached!`);
+  }
+
+  private updateStreak(progress: GoalProgress[]): void {
+    const daily = progress.filter((entry) => entry.goal.period === "daily");
+    if (daily.length === 0 || daily.some((entry) => entry.ratio < 1)) {
+      return;
+    }
+
+    const today = toDateKey(new Date());
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const streak = this.context.globalState.get<GoalStreak>(STREAK_STATE_KEY);
+    if (streak?.lastDate === today) return;
+
+    const days =
+      streak?.lastDate === toDateKey(yesterday) ? streak.days + 1 : 1;
+    this.context.globalState.update(STREAK_STATE_KEY, {
+      days,
+      lastDate: today,
+    });
+    log(`Daily goals reached ${days} days in a row`);
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
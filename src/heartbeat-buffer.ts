@@ -0,0 +1,78 @@
+import type { Heartbeat } from "./heartbeat";
+import { mergeEditMetrics } from "./edit-metrics";
+
+export const MAX_BATCH_SIZE = 1000;
+
+function isSameActivity(a: Heartbeat, b: Heartbeat): boolean {
+  return (
+    a.file === b.file &&
+    a.project === b.project &&
+    a.language === b.language &&
+    a.branch === b.branch &&
+    a.category === b.category
+  );
+}
+
+/**
+ * Collects heartbeats in memory until they are flushed through the batch
+ * endpoint. A heartbeat for the same file as the two before it replaces the
+ * last one as long as the gap to the earlier one stays below `mergeWindowMs`,
+ * so the covered time span is kept while redundant heartbeats are dropped.
+ * A batch stays in the buffer while it is being sent and is only removed once
+ * it was accepted; heartbeats in that batch are never merged into.
+ */
+export class HeartbeatBuffer {
+  private heartbeats: Heartbeat[] = [];
+  private inFlightCount: number = 0;
+
+  constructor(public mergeWindowMs: number) {}
+
+  public get size(): number {
+    return this.heartbeats.length;
+  }
+
+  public add(heartbeat: Heartbeat): void {
+    const length = this.heartbeats.length;
+    const last = this.heartbeats[length - 1];
+    const beforeLast = this.heartbeats[length - 2];
+
+    if (
+      last &&
+      length - 1 >= this.inFlightCount &&
+      isSameActivity(last, heartbeat)
+    ) {
+      if (last.timestamp === heartbeat.timestamp) {
+        this.heartbeats[length - 1] = mergeEditMetrics(heartbeat, last);
+        return;
+      }
+      if (
+        beforeLast &&
+        isSameActivity(beforeLast, heartbeat) &&
+        Date.parse(heartbeat.timestamp) - Date.parse(beforeLast.timestamp) <=
+          this.mergeWindowMs
+      ) {
+        this.heartbeats[length - 1] = mergeEditMetrics(last, heartbeat);
+        return;
+      }
+    }
+
+    this.heartbeats.push(heartbeat);
+  }
+
+  public peek(count: number = MAX_BATCH_SIZE): Heartbeat[] {
+    const batch = this.heartbeats.slice(0, count);
+    this.inFlightCount = batch.length;
+    return batch;
+  }
+
+  /** Removes a batch returned by `peek`, unless it was drained meanwhile. */
+  public removeFirst(count: number): void {
+    this.heartbeats.splice(0, Math.min(count, this.inFlightCount));
+    this.inFlightCount = 0;
+  }
+
+  public drain(): Heartbeat[] {
+    this.inFlightCount = 0;
+    return this.heartbeats.splice(0, this.heartbeats.length);
+  }
+}
@@ -1,14 +1,44 @@
 import * as vscode from "vscode";
 import { log } from "./log";
-import * as https from "https";
-import * as http from "http";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { StatusBarManager } from "./status-bar";
-import { getApiKey, getBaseUrl } from "./config";
+import {
+  DEFAULT_INSTANCE,
+  getApiKey,
+  getBaseUrl,
+  getHeartbeatIntervalMs,
+  getIdleTimeoutMs,
+  getInstanceNames,
+  getTrackingMode,
+} from "./config";
+import { resolveInstanceName } from "./instances";
+import type { StatsResponse, StatsSummary, StatsTimeRange } from "./stats";
+import { ProjectFileManager } from "./project-file";
+import { getFileExclusionReason, getProjectExclusionReason } from "./filters";
+import { OfflineQueue } from "./offline-queue";
+import { LocalHeartbeatStore } from "./local-store";
+import { findNotebookForCell, getNotebookLanguage } from "./notebooks";
+import { classifyUri } from "./uri-classification";
+import { promptForAwayTime } from "./idle-prompt";
+import { EditMetricsTracker, type InsertionShares } from "./edit-metrics";
+import { HeartbeatBuffer, MAX_BATCH_SIZE } from "./heartbeat-buffer";
+import { ReconnectScheduler } from "./reconnect";
+import {
+  describeError,
+  isRejectedError,
+  isTooLargeError,
+  isUnauthorizedError,
+  request,
+  requestJson,
+  RequestError,
+} from "./http";
+import { getPrivacyLevel, getPrivacySalt, sanitizeHeartbeat } from "./privacy";
 
-interface Heartbeat {
+export type HeartbeatCategory = "coding" | "debugging" | "terminal";
+
+export interface Heartbeat {
   timestamp: string;
   project?: string;
   language?: string;
@@ -16,34 +46,88 @@ interface Heartbeat {
   branch?: string;
   editor: string;
   os: string;
+  category?: HeartbeatCategory;
+  linesAdded?: number;
+  linesRemoved?: number;
+  insertedCharacters?: number;
+  insertionShares?: InsertionShares;
+  lineCount?: number;
+  cursorLine?: number;
+}
+
+const MAX_RECENT_PROJECTS = 10;
+const MAX_AWAY_PROMPT_MILLISECONDS = 12 * 60 * 60 * 1000;
+
+function getOsName(): string {
+  return process.platform === "win32"
+    ? "Windows"
+    : process.platform === "darwin"
+      ? "macOS"
+      : "Linux";
+}
+
+interface ActivityTarget {
+  uri: vscode.Uri;
+  file?: string;
+  language?: string;
+  project?: string;
+  ignoredReason?: string;
+  isDirectory?: boolean;
+}
+
+interface InstanceConnection {
+  name: string;
+  offlineQueue: OfflineQueue;
+  pendingHeartbeats: HeartbeatBuffer;
+  isFlushing: boolean;
+  reconnectScheduler: ReconnectScheduler;
+  isOnline: boolean;
+  hasValidApiKey: boolean;
+  isSyncing: boolean;
 }
 
 export class HeartbeatManager {
   private lastHeartbeat: number = 0;
   private lastFile: string = "";
-  private heartbeatInterval: number = 120000;
-  private userInactivityThresholdMilliseconds: number = 15 * 60 * 1000;
-  private activeDocumentInfo: { file: string; language: string } | null = null;
+  private lastCategory: HeartbeatCategory = "coding";
+  private activityCategory: HeartbeatCategory = "coding";
+  private heartbeatInterval: number = getHeartbeatIntervalMs();
+  private userInactivityThresholdMilliseconds: number = getIdleTimeoutMs();
+  private activeDocumentInfo: ActivityTarget | null = null;
   private statusBar: StatusBarManager | null = null;
   private heartbeatCount: number = 0;
   private successCount: number = 0;
   private failureCount: number = 0;
-  private offlineHeartbeats: Heartbeat[] = [];
-  private offlineQueuePath: string;
-  private isOnline: boolean = true;
-  private hasValidApiKey: boolean = true;
+  private connections = new Map<string, InstanceConnection>();
+  private activeInstance: string = DEFAULT_INSTANCE;
+  private configDir: string;
+  private localStore: LocalHeartbeatStore;
   private lastActivity: number = Date.now();
   private todayLocalTotalSeconds: number = 0;
   private isWindowFocused: boolean = true;
   private unsyncedLocalSeconds: number = 0;
   private activityAccumulatorIntervalId: NodeJS.Timeout | null = null;
+  private heartbeatIntervalId: NodeJS.Timeout | null = null;
+  private statsIntervalId: NodeJS.Timeout | null = null;
   private lastTimeAccumulated: number = Date.now();
+  private flushIntervalMilliseconds: number = 60000;
+  private flushIntervalId: NodeJS.Timeout | null = null;
+  private statsEmitter = new vscode.EventEmitter<StatsResponse>();
+  public readonly onDidUpdateStats = this.statsEmitter.event;
+  private projectFiles = new ProjectFileManager();
+  private gitApi: any;
+  private privacySalt: string;
+  private editMetrics = new EditMetricsTracker();
+  private recentProjects: string[] = [];
+  private isPromptingForAwayTime: boolean = false;
+  private isPaused: boolean = false;
 
   constructor(
     private context: vscode.ExtensionContext,
     statusBar?: StatusBarManager,
   ) {
     this.statusBar = statusBar || null;
+    this.privacySalt = getPrivacySalt(context);
 
     const xdgConfigHome = process.env.XDG_CONFIG_HOME;
     const configDir = xdgConfigHome
@@ -54,9 +138,15 @@ export class HeartbeatManager {
       fs.mkdirSync(configDir, { recursive: true });
     }
 
-    this.offlineQueuePath = path.join(configDir, "offline_heartbeats.json");
-    this.migrateOfflineHeartbeats();
-    this.loadOfflineHeartbeats();
+    this.configDir = configDir;
+    this.localStore = new LocalHeartbeatStore(configDir);
+    this.migrateOfflineHeartbeats(configDir);
+    for (const name of getInstanceNames()) {
+      this.getConnection(name);
+    }
+    this.activeInstance = resolveInstanceName(
+      vscode.window.activeTextEditor?.document.uri,
+    );
     this.initialize();
   }
 
@@ -65,39 +155,24 @@ export class HeartbeatManager {
     this.lastActivity = Date.now();
     this.lastTimeAccumulated = Date.now();
 
-    this.activityAccumulatorIntervalId = setInterval(() => {
-      const now = Date.now();
-      if (this.isWindowFocused) {
-        const timeSinceLastInteraction = now - this.lastActivity;
-        if (
-          timeSinceLastInteraction < this.userInactivityThresholdMilliseconds
-        ) {
-          const elapsedSeconds = Math.floor(
-            (now - this.lastTimeAccumulated) / 1000,
-          );
-          if (elapsedSeconds > 0) {
-            this.unsyncedLocalSeconds += elapsedSeconds;
-          }
-        }
-      }
-      this.lastTimeAccumulated = now;
-    }, 5000);
-
-    this.context.subscriptions.push({
-      dispose: () => {
-        if (this.activityAccumulatorIntervalId) {
-          clearInterval(this.activityAccumulatorIntervalId);
-        }
-      },
+    this.context.subscriptions.push(this.projectFiles, {
+      dispose: () => this.clearTimers(),
     });
 
     this.registerEventListeners();
-    this.scheduleHeartbeat();
+    this.registerDebugListeners();
+    this.registerTerminalListeners();
+    this.watchGitRepositories();
+    this.scheduleTimers();
     this.syncOfflineHeartbeats();
 
     if (this.statusBar) {
-      this.statusBar.setOnlineStatus(this.isOnline);
-      this.statusBar.setApiKeyStatus(this.hasValidApiKey);
+      const connection = this.getConnection(this.activeInstance);
+      this.statusBar.setInstanceName(this.getInstanceLabel());
+      this.statusBar.setOnlineStatus(connection.isOnline);
+      this.statusBar.setApiKeyStatus(connection.hasValidApiKey);
+      this.statusBar.setQueuedCount(this.offlineQueueSize);
+      this.statusBar.setLocalMode(this.isLocalMode);
       if (this.isWindowFocused) {
         this.statusBar.startTracking();
       }
@@ -125,24 +200,282 @@ export class HeartbeatManager {
       this.context.subscriptions,
     );
 
+    vscode.window.onDidChangeActiveNotebookEditor(
+      this.handleActiveNotebookEditorChange,
+      null,
+      this.context.subscriptions,
+    );
+
+    vscode.workspace.onDidChangeNotebookDocument(
+      this.handleNotebookChange,
+      null,
+      this.context.subscriptions,
+    );
+
+    vscode.workspace.onDidSaveNotebookDocument(
+      this.handleNotebookSave,
+      null,
+      this.context.subscriptions,
+    );
+
     vscode.window.onDidChangeWindowState(
       this.handleWindowStateChange,
       null,
       this.context.subscriptions,
     );
 
+    vscode.workspace.onDidChangeConfiguration(
+      this.handleConfigurationChange,
+      null,
+      this.context.subscriptions,
+    );
+
     if (vscode.window.activeTextEditor) {
       this.handleActiveEditorChange(vscode.window.activeTextEditor);
+    } else if (vscode.window.activeNotebookEditor) {
+      this.handleActiveNotebookEditorChange(vscode.window.activeNotebookEditor);
+    }
+  }
+
+  private registerDebugListeners(): void {
+    vscode.debug.onDidStartDebugSession(
+      this.handleDebugSessionStart,
+      null,
+      this.context.subscriptions,
+    );
+
+    vscode.debug.onDidTerminateDebugSession(
+      this.handleDebugSessionEnd,
+      null,
+      this.context.subscriptions,
+    );
+
+    vscode.debug.onDidChangeActiveStackItem(
+      () => this.recordDebugActivity(false),
+      null,
+      this.context.subscriptions,
+    );
+
+    this.context.subscriptions.push(
+      vscode.debug.registerDebugAdapterTrackerFactory("*", {
+        createDebugAdapterTracker: () => ({
+          onDidSendMessage: (message: any) => {
+            if (message?.type === "event" && message.event === "stopped") {
+              log(`Debugger stopped: ${message.body?.reason ?? "unknown"}`);
+              this.recordDebugActivity(true);
+            }
+          },
+        }),
+      }),
+    );
+
+    if (vscode.debug.activeDebugSession) {
+      this.activityCategory = "debugging";
     }
   }
 
+  private registerTerminalListeners(): void {
+    // Terminals opened by tasks or extensions also become active, so only a
+    // terminal the user switches to in the focused window counts.
+    vscode.window.onDidChangeActiveTerminal(
+      (terminal) =>
+        terminal && this.isWindowFocused && this.recordTerminalActivity(true),
+      null,
+      this.context.subscriptions,
+    );
+
+    vscode.window.onDidChangeTerminalState(
+      (terminal) =>
+        terminal.state.isInteractedWith &&
+        terminal === vscode.window.activeTerminal &&
+        this.isWindowFocused &&
+        this.recordTerminalActivity(false),
+      null,
+      this.context.subscriptions,
+    );
+
+    // Focus may return from the terminal to the editor that was already
+    // active, which does not change the active editor.
+    vscode.window.onDidChangeTextEditorSelection(
+      (event) => this.handleEditorInteraction(event.textEditor),
+      null,
+      this.context.subscriptions,
+    );
+
+    vscode.window.onDidChangeTextEditorVisibleRanges(
+      (event) => this.handleEditorInteraction(event.textEditor),
+      null,
+      this.context.subscriptions,
+    );
+
+    // Only the fact that a command ran is used, never its command line.
+    vscode.window.onDidStartTerminalShellExecution(
+      this.handleShellExecution,
+      null,
+      this.context.subscriptions,
+    );
+
+    vscode.window.onDidEndTerminalShellExecution(
+      this.handleShellExecution,
+      null,
+      this.context.subscriptions,
+    );
+  }
+
+  private handleShellExecution = (
+    event:
+      | vscode.TerminalShellExecutionStartEvent
+      | vscode.TerminalShellExecutionEndEvent,
+  ): void => {
+    // Task terminals and commands finishing while the user is away must not
+    // count as activity.
+    if (
+      event.terminal === vscode.window.activeTerminal &&
+      this.isWindowFocused
+    ) {
+      this.recordTerminalActivity(true);
+    }
+  };
+
+  private handleEditorInteraction(editor: vscode.TextEditor): void {
+    if (editor === vscode.window.activeTextEditor) {
+      this.leaveTerminal();
+    }
+  }
+
+  private leaveTerminal(): void {
+    if (this.activityCategory === "terminal") {
+      this.activityCategory = vscode.debug.activeDebugSession
+        ? "debugging"
+        : "coding";
+    }
+  }
+
+  private recordTerminalActivity(force: boolean): void {
+    if (
+      !vscode.workspace
+        .getConfiguration("ziit")
+        .get<boolean>("trackTerminal", true)
+    ) {
+      return;
+    }
+    this.activityCategory = "terminal";
+    this.recordUserInteraction();
+    this.sendHeartbeat(force);
+  }
+
+  private handleDebugSessionStart = (session: vscode.DebugSession): void => {
+    log(`Debug session started: ${session.name} (${session.type})`);
+    this.recordDebugActivity(true);
+  };
+
+  private handleDebugSessionEnd = (session: vscode.DebugSession): void => {
+    log(`Debug session ended: ${session.name} (${session.type})`);
+    this.recordUserInteraction();
+    this.sendHeartbeat(true);
+    if (!vscode.debug.activeDebugSession) {
+      this.activityCategory = "coding";
+    }
+  };
+
+  private recordDebugActivity(force: boolean): void {
+    this.activityCategory = "debugging";
+    this.recordUserInteraction();
+    this.sendHeartbeat(force);
+  }
+
   private recordUserInteraction(): void {
+    this.checkForAwayTime();
     this.lastActivity = Date.now();
     if (this.statusBar && this.isWindowFocused) {
       this.statusBar.startTracking();
     }
   }
 
+  private checkForAwayTime(): void {
+    const awayStart = this.lastActivity;
+    const awayEnd = Date.now();
+    const awayMilliseconds = awayEnd - awayStart;
+    if (
+      awayMilliseconds < this.userInactivityThresholdMilliseconds ||
+      awayMilliseconds > MAX_AWAY_PROMPT_MILLISECONDS ||
+      this.isPromptingForAwayTime ||
+      !vscode.workspace
+        .getConfiguration("ziit")
+        .get<boolean>("promptOnIdleReturn", true)
+    ) {
+      return;
+    }
+    this.handleAwayTime(awayStart, awayEnd);
+  }
+
+  private async handleAwayTime(
+    awayStart: number,
+    awayEnd: number,
+  ): Promise<void> {
+    const targetUri = this.getActivityTarget()?.uri;
+    this.isPromptingForAwayTime = true;
+    let project: string | undefined;
+    try {
+      project = await promptForAwayTime(
+        awayEnd - awayStart,
+        this.recentProjects,
+      );
+    } finally {
+      this.isPromptingForAwayTime = false;
+    }
+    if (!project) {
+      log(`Discarded ${Math.round((awayEnd - awayStart) / 1000)}s away time`);
+      return;
+    }
+
+    const connection = this.getConnection(resolveInstanceName(targetUri));
+    const isLocalMode = this.isLocalMode;
+    const privacyLevel = getPrivacyLevel(targetUri);
+    const heartbeats: Heartbeat[] = [];
+    for (
+      let time = awayStart + this.heartbeatInterval;
+      time < awayEnd;
+      time += this.heartbeatInterval
+    ) {
+      const heartbeat = sanitizeHeartbeat(
+        {
+          timestamp: new Date(time).toISOString(),
+          project,
+          editor: vscode.env.appName,
+          os: getOsName(),
+        },
+        privacyLevel,
+        this.privacySalt,
+      );
+      if (isLocalMode) {
+        this.localStore.append(heartbeat);
+      } else {
+        heartbeats.push(heartbeat);
+      }
+    }
+    await connection.offlineQueue.appendMany(heartbeats);
+    log(
+      `Backfilled ${heartbeats.length} heartbeats of away time on project "${project}"`,
+    );
+    this.rememberProject(project);
+    if (isLocalMode) {
+      this.fetchDailySummary();
+      return;
+    }
+    this.updateQueuedCount();
+    // The offline queue already sends its heartbeats through the batch
+    // endpoint and keeps them until they are accepted.
+    await this.syncOfflineQueue(connection);
+  }
+
+  private rememberProject(project: string): void {
+    this.recentProjects = [
+      project,
+      ...this.recentProjects.filter((recent) => recent !== project),
+    ].slice(0, MAX_RECENT_PROJECTS);
+  }
+
   private handleActiveEditorChange = (
     editor: vscode.TextEditor | undefined,
   ): void => {
@@ -150,31 +483,107 @@ export class HeartbeatManager {
       log(
         `Editor changed: ${editor.document.uri.fsPath} (${editor.document.languageId})`,
       );
-      this.activeDocumentInfo = {
-        file: path.basename(editor.document.uri.fsPath),
-        language: editor.document.languageId,
-      };
+      this.activeDocumentInfo = this.getDocumentTarget(editor.document);
+      this.leaveTerminal();
+      this.updateActiveInstance(this.activeDocumentInfo.uri);
       this.recordUserInteraction();
-      this.sendHeartbeat(true).then(() => this.fetchDailySummary());
+      this.sendHeartbeat(true);
     }
   };
 
+  private handleActiveNotebookEditorChange = (
+    editor: vscode.NotebookEditor | undefined,
+  ): void => {
+    if (editor) {
+      log(`Notebook editor changed: ${editor.notebook.uri.fsPath}`);
+      this.activeDocumentInfo = this.getNotebookTarget(editor.notebook);
+      this.leaveTerminal();
+      this.updateActiveInstance(editor.notebook.uri);
+      this.recordUserInteraction();
+      this.sendHeartbeat(true);
+    }
+  };
+
+  private handleNotebookChange = (
+    event: vscode.NotebookDocumentChangeEvent,
+  ): void => {
+    if (vscode.window.activeNotebookEditor?.notebook !== event.notebook) {
+      return;
+    }
+    // Outputs, execution summaries and metadata also change while a cell runs
+    // on its own, so only added, removed or edited cells count as activity.
+    if (
+      event.contentChanges.length === 0 &&
+      !event.cellChanges.some((change) => change.document)
+    ) {
+      return;
+    }
+    const cellDocument = vscode.window.activeTextEditor?.document;
+    this.activeDocumentInfo = this.getNotebookTarget(
+      event.notebook,
+      cellDocument && findNotebookForCell(cellDocument) === event.notebook
+        ? cellDocument
+        : undefined,
+    );
+    this.activityCategory = "coding";
+    this.recordUserInteraction();
+    this.sendHeartbeat();
+  };
+
+  private handleNotebookSave = (notebook: vscode.NotebookDocument): void => {
+    if (vscode.window.activeNotebookEditor?.notebook === notebook) {
+      this.activityCategory = "coding";
+      this.recordUserInteraction();
+      this.sendHeartbeat(true);
+    }
+  };
+
+  private getDocumentTarget(document: vscode.TextDocument): ActivityTarget {
+    const notebook = findNotebookForCell(document);
+    if (notebook) {
+      return this.getNotebookTarget(notebook, document);
+    }
+    const classification = classifyUri(document.uri);
+    return {
+      uri: document.uri,
+      file: classification.fileName,
+      language: document.languageId,
+      project: classification.project,
+      ignoredReason: classification.ignoredReason,
+    };
+  }
+
+  private getNotebookTarget(
+    notebook: vscode.NotebookDocument,
+    cellDocument?: vscode.TextDocument,
+  ): ActivityTarget {
+    const classification = classifyUri(notebook.uri);
+    return {
+      uri: notebook.uri,
+      file: classification.fileName,
+      language: getNotebookLanguage(notebook, cellDocument),
+      project: classification.project,
+      ignoredReason: classification.ignoredReason,
+    };
+  }
+
   private handleDocumentChange = (
     event: vscode.TextDocumentChangeEvent,
   ): void => {
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor && activeEditor.document === event.document) {
-      this.activeDocumentInfo = {
-        file: path.basename(event.document.uri.fsPath),
-        language: event.document.languageId,
-      };
+      this.activeDocumentInfo = this.getDocumentTarget(event.document);
+      this.editMetrics.record(this.activeDocumentInfo.uri, event);
+      this.activityCategory = "coding";
       this.recordUserInteraction();
       const now = Date.now();
-      const fileChanged = this.lastFile !== event.document.uri.fsPath;
+      const fileChanged =
+        this.lastFile !== this.activeDocumentInfo.uri.fsPath ||
+        this.lastCategory !== this.activityCategory;
       const timeThresholdPassed =
         now - this.lastHeartbeat >= this.heartbeatInterval;
       if (fileChanged || timeThresholdPassed) {
-        this.sendHeartbeat().then(() => this.fetchDailySummary());
+        this.sendHeartbeat();
       }
     }
   };
@@ -182,8 +591,45 @@ export class HeartbeatManager {
   private handleDocumentSave = (document: vscode.TextDocument): void => {
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor && activeEditor.document === document) {
+      this.activityCategory = "coding";
       this.recordUserInteraction();
-      this.sendHeartbeat(true).then(() => this.fetchDailySummary());
+      this.sendHeartbeat(true);
+    }
+  };
+
+  private handleConfigurationChange = (
+    event: vscode.ConfigurationChangeEvent,
+  ): void => {
+    if (
+      event.affectsConfiguration("ziit.instances") ||
+      event.affectsConfiguration("ziit.instance") ||
+      event.affectsConfiguration("ziit.instanceRules")
+    ) {
+      for (const name of getInstanceNames()) {
+        this.getConnection(name);
+      }
+      this.updateActiveInstance(this.activeDocumentInfo?.uri);
+      this.syncOfflineHeartbeats();
+    }
+    if (
+      event.affectsConfiguration("ziit.heartbeatInterval") ||
+      event.affectsConfiguration("ziit.idleTimeout")
+    ) {
+      this.applyTimingSettings();
+    }
+    if (event.affectsConfiguration("ziit.mode")) {
+      log(`Tracking mode changed to: ${getTrackingMode()}`);
+      if (this.statusBar) {
+        this.statusBar.setLocalMode(this.isLocalMode);
+      }
+      this.fetchDailySummary();
+      this.syncOfflineHeartbeats();
+    }
+    if (
+      event.affectsConfiguration("ziit.trackTerminal") &&
+      this.activityCategory === "terminal"
+    ) {
+      this.activityCategory = "coding";
     }
   };
 
@@ -195,8 +641,9 @@ export class HeartbeatManager {
       if (this.statusBar) {
         this.statusBar.stopTracking();
       }
-      this.fetchDailySummary();
+      this.flushHeartbeats();
     } else if (this.isWindowFocused && !wasFocused) {
+      this.checkForAwayTime();
       this.lastActivity = Date.now();
       log(
         `Window focused, activity timer reset at ${new Date(
@@ -210,22 +657,41 @@ export class HeartbeatManager {
     }
   };
 
-  private scheduleHeartbeat(): void {
+  private scheduleTimers(): void {
     log(
       `Setting up heartbeat schedule with interval: ${this.heartbeatInterval}ms and inactivity threshold: ${this.userInactivityThresholdMilliseconds}ms`,
     );
-    setInterval(() => {
+    this.lastTimeAccumulated = Date.now();
+    this.activityAccumulatorIntervalId = setInterval(() => {
+      const now = Date.now();
+      if (this.isWindowFocused) {
+        const timeSinceLastInteraction = now - this.lastActivity;
+        if (
+          timeSinceLastInteraction < this.userInactivityThresholdMilliseconds
+        ) {
+          const elapsedSeconds = Math.floor(
+            (now - this.lastTimeAccumulated) / 1000,
+          );
+          if (elapsedSeconds > 0) {
+            this.unsyncedLocalSeconds += elapsedSeconds;
+          }
+        }
+      }
+      this.lastTimeAccumulated = now;
+    }, 5000);
+    this.heartbeatIntervalId = setInterval(() => {
       const now = Date.now();
       const userIsEffectivelyActive =
         this.isWindowFocused &&
         now - this.lastActivity < this.userInactivityThresholdMilliseconds;
-      if (this.activeDocumentInfo && userIsEffectivelyActive) {
-        this.sendHeartbeat().then(() => this.fetchDailySummary());
+      const hasActivityTarget = !!this.getActivityTarget();
+      if (hasActivityTarget && userIsEffectivelyActive) {
+        this.sendHeartbeat();
         if (this.statusBar && this.isWindowFocused) {
           this.statusBar.startTracking();
         }
       } else {
-        const reason = !this.activeDocumentInfo
+        const reason = !hasActivityTarget
           ? "no active document"
           : !this.isWindowFocused
             ? "window not focused"
@@ -235,41 +701,80 @@ export class HeartbeatManager {
             this.isWindowFocused
           }, SufficientlyRecentInteraction: ${
             now - this.lastActivity < this.userInactivityThresholdMilliseconds
-          }, ActiveDoc: ${!!this.activeDocumentInfo}`,
+          }, ActiveDoc: ${hasActivityTarget}`,
         );
         if (this.statusBar) {
           this.statusBar.stopTracking();
         }
       }
     }, this.heartbeatInterval);
-    setInterval(
+    this.flushIntervalId = setInterval(() => {
+      this.flushHeartbeats();
+    }, this.flushIntervalMilliseconds);
+    this.statsIntervalId = setInterval(
       () => {
         this.fetchDailySummary();
         log(
-          `Heartbeat stats - Total: ${this.heartbeatCount}, Success: ${this.successCount}, Failed: ${this.failureCount}, Offline: ${this.offlineHeartbeats.length}`,
+          `Heartbeat stats - Total: ${this.heartbeatCount}, Success: ${this.successCount}, Failed: ${this.failureCount}, Offline: ${this.offlineQueueSize}`,
         );
       },
       15 * 60 * 1000,
     );
   }
 
-  private migrateOfflineHeartbeats(): void {
+  private clearTimers(): void {
+    for (const intervalId of [
+      this.activityAccumulatorIntervalId,
+      this.heartbeatIntervalId,
+      this.flushIntervalId,
+      this.statsIntervalId,
+    ]) {
+      if (intervalId) {
+        clearInterval(intervalId);
+      }
+    }
+    this.activityAccumulatorIntervalId = null;
+    this.heartbeatIntervalId = null;
+    this.flushIntervalId = null;
+    this.statsIntervalId = null;
+  }
+
+  private applyTimingSettings(): void {
+    const heartbeatInterval = getHeartbeatIntervalMs();
+    const idleTimeout = getIdleTimeoutMs();
+    if (
+      heartbeatInterval === this.heartbeatInterval &&
+      idleTimeout === this.userInactivityThresholdMilliseconds
+    ) {
+      return;
+    }
+    this.heartbeatInterval = heartbeatInterval;
+    this.userInactivityThresholdMilliseconds = idleTimeout;
+    for (const connection of this.connections.values()) {
+      connection.pendingHeartbeats.mergeWindowMs = heartbeatInterval;
+    }
+    this.clearTimers();
+    this.scheduleTimers();
+  }
+
+  private migrateOfflineHeartbeats(configDir: string): void {
     try {
       const legacyOfflinePath = path.join(
         os.homedir(),
         ".ziit",
         "offline_heartbeats.json",
       );
+      const offlineQueuePath = path.join(configDir, "offline_heartbeats.json");
 
       if (
         fs.existsSync(legacyOfflinePath) &&
-        !fs.existsSync(this.offlineQueuePath)
+        !fs.existsSync(offlineQueuePath)
       ) {
         const legacyData = fs.readFileSync(legacyOfflinePath, "utf8");
-        fs.writeFileSync(this.offlineQueuePath, legacyData, "utf8");
+        fs.writeFileSync(offlineQueuePath, legacyData, "utf8");
         fs.unlinkSync(legacyOfflinePath);
         log(
-          `Migrated offline heartbeats from ${legacyOfflinePath} to ${this.offlineQueuePath}`,
+          `Migrated offline heartbeats from ${legacyOfflinePath} to ${offlineQueuePath}`,
         );
 
         try {
@@ -295,71 +800,34 @@ export class HeartbeatManager {
   }
 
   public async fetchDailySummary(): Promise<void> {
-    const apiKey = await getApiKey();
-    const baseUrl = await getBaseUrl();
+    if (this.isLocalMode) {
+      const stats = this.getLocalStats("today");
+      this.statsEmitter.fire(stats);
+      this.showTodaySummary(stats.summaries[0]);
+      return;
+    }
+    const connection = this.getConnection(this.activeInstance);
+    const apiKey = await getApiKey(connection.name);
+    const baseUrl = await getBaseUrl(connection.name);
     if (!apiKey || !baseUrl) {
       return;
     }
     try {
-      const url = new URL("/api/external/stats", baseUrl);
-      url.searchParams.append("timeRange", "today");
-      const now = new Date();
-      const timezoneOffsetMinutes = now.getTimezoneOffset();
-      const timezoneOffsetSeconds = timezoneOffsetMinutes * 60;
-      url.searchParams.append(
-        "midnightOffsetSeconds",
-        timezoneOffsetSeconds.toString(),
-      );
-      url.searchParams.append("t", Date.now().toString());
-      const requestOptions = {
-        hostname: url.hostname,
-        port: url.port || (url.protocol === "https:" ? 443 : 80),
-        path: url.pathname + url.search,
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-        },
-        protocol: url.protocol,
-      };
-      const apiResponse = await this.makeRequest<{
-        summaries: Array<{
-          date: string;
-          totalSeconds: number;
-          projects: Record<string, number>;
-          languages: Record<string, number>;
-          editors: Record<string, number>;
-          os: Record<string, number>;
-          hourlyData: Array<{ seconds: number }>;
-        }>;
-        timezone: string;
-      }>(requestOptions);
-      this.setOnlineStatus(true);
-      this.setApiKeyStatus(true);
-      if (
-        apiResponse &&
-        apiResponse.summaries &&
-        apiResponse.summaries.length > 0
-      ) {
-        const todaySummary = apiResponse.summaries[0];
-        this.todayLocalTotalSeconds = todaySummary.totalSeconds;
-        if (this.statusBar) {
-          const hours = Math.floor(this.todayLocalTotalSeconds / 3600);
-          const minutes = Math.floor((this.todayLocalTotalSeconds % 3600) / 60);
-          this.statusBar.updateTime(hours, minutes);
-        }
-        this.unsyncedLocalSeconds = 0;
-      } else {
-        if (this.statusBar) {
-          this.statusBar.updateTime(0, 0);
-        }
-      }
+      const apiResponse = await this.requestStats(apiKey, baseUrl, "today");
+      if (connection.name !== this.activeInstance) return;
+      this.statsEmitter.fire(apiResponse);
+      this.setOnlineStatus(true, connection);
+      this.setApiKeyStatus(true, connection);
+      this.showTodaySummary(apiResponse?.summaries?.[0]);
     } catch (error) {
-      if (error instanceof Error && error.message.includes("401")) {
-        this.setApiKeyStatus(false);
+      if (isUnauthorizedError(error)) {
+        this.setApiKeyStatus(false, connection);
         log(`Error fetching daily summary: Invalid API key`);
+      } else if (isRejectedError(error)) {
+        log(`Daily summary request rejected: ${describeError(error)}`);
       } else {
-        this.setOnlineStatus(false);
-        log(`Error fetching daily summary: ${error}`);
+        this.setOnlineStatus(false, connection);
+        log(`Error fetching daily summary: ${describeError(error)}`);
       }
       if (
         this.statusBar &&
@@ -374,115 +842,272 @@ export class HeartbeatManager {
     }
   }
 
-  private async syncOfflineHeartbeats(): Promise<void> {
-    log(
-      "Syncing offline heartbeats to the contected ziit instance: " +
-        (await getBaseUrl()),
-    );
+  private showTodaySummary(todaySummary: StatsSummary | undefined): void {
+    if (todaySummary) {
+      this.todayLocalTotalSeconds = todaySummary.totalSeconds;
+      if (this.statusBar) {
+        this.statusBar.setTodaySummary(todaySummary);
+        const hours = Math.floor(this.todayLocalTotalSeconds / 3600);
+        const minutes = Math.floor((this.todayLocalTotalSeconds % 3600) / 60);
+        this.statusBar.updateTime(hours, minutes);
+      }
+      this.unsyncedLocalSeconds = 0;
+    } else {
+      if (this.statusBar) {
+        this.statusBar.setTodaySummary(undefined);
+        this.statusBar.updateTime(0, 0);
+      }
+    }
+  }
 
-    if (!this.isOnline || this.offlineHeartbeats.length === 0) return;
-    const apiKey = await getApiKey();
-    const baseUrl = await getBaseUrl();
+  public async fetchStats(
+    timeRange: StatsTimeRange,
+  ): Promise<StatsResponse | undefined> {
+    if (this.isLocalMode) {
+      return this.getLocalStats(timeRange);
+    }
+    const connection = this.getConnection(this.activeInstance);
+    const apiKey = await getApiKey(connection.name);
+    const baseUrl = await getBaseUrl(connection.name);
     if (!apiKey || !baseUrl) {
+      return undefined;
+    }
+    try {
+      return await this.requestStats(apiKey, baseUrl, timeRange);
+    } catch (error) {
+      if (isUnauthorizedError(error)) {
+        this.setApiKeyStatus(false, connection);
+      } else if (!isRejectedError(error)) {
+        this.setOnlineStatus(false, connection);
+      }
+      throw error;
+    }
+  }
+
+  private getLocalStats(timeRange: StatsTimeRange): StatsResponse {
+    return this.localStore.computeStats(
+      timeRange,
+      this.userInactivityThresholdMilliseconds,
+    );
+  }
+
+  private requestStats(
+    apiKey: string,
+    baseUrl: string,
+    timeRange: StatsTimeRange,
+  ): Promise<StatsResponse> {
+    const url = new URL("/api/external/stats", baseUrl);
+    url.searchParams.append("timeRange", timeRange);
+    const now = new Date();
+    const timezoneOffsetMinutes = now.getTimezoneOffset();
+    const timezoneOffsetSeconds = timezoneOffsetMinutes * 60;
+    url.searchParams.append(
+      "midnightOffsetSeconds",
+      timezoneOffsetSeconds.toString(),
+    );
+    url.searchParams.append("t", Date.now().toString());
+    return requestJson<StatsResponse>(url, { method: "GET", apiKey });
+  }
+
+  private async syncOfflineHeartbeats(): Promise<void> {
+    for (const connection of this.connections.values()) {
+      await this.syncOfflineQueue(connection);
+    }
+  }
+
+  private async syncOfflineQueue(
+    connection: InstanceConnection,
+  ): Promise<void> {
+    if (
+      this.isLocalMode ||
+      !connection.isOnline ||
+      connection.isSyncing ||
+      connection.offlineQueue.size === 0
+    ) {
       return;
     }
+    // Set before the first await: the sync lease only keeps out other
+    // windows, not a second sync started by this one meanwhile.
+    connection.isSyncing = true;
+    try {
+      await this.sendOfflineQueue(connection);
+    } finally {
+      connection.isSyncing = false;
+    }
 
-    this.offlineHeartbeats = this.offlineHeartbeats.map((heartbeat) => ({
-      ...heartbeat,
-      timestamp:
-        typeof heartbeat.timestamp === "number"
-          ? new Date(heartbeat.timestamp).toISOString()
-          : heartbeat.timestamp,
-    }));
+    if (
+      connection.offlineQueue.size === 0 &&
+      connection.name === this.activeInstance
+    ) {
+      this.fetchDailySummary();
+    }
+  }
 
-    while (this.offlineHeartbeats.length > 0) {
-      const batch = this.offlineHeartbeats.slice(0, 1000);
-      this.offlineHeartbeats = this.offlineHeartbeats.slice(1000);
+  private async sendOfflineQueue(
+    connection: InstanceConnection,
+  ): Promise<void> {
+    const apiKey = await getApiKey(connection.name);
+    const baseUrl = await getBaseUrl(connection.name);
+    if (!apiKey || !baseUrl) {
+      return;
+    }
+    log(
+      "Syncing offline heartbeats to the contected ziit instance: " + baseUrl,
+    );
 
-      try {
-        const data = JSON.stringify(batch);
-        const url = new URL("/api/external/batch", baseUrl);
+    if (!(await connection.offlineQueue.tryAcquireSyncLease())) {
+      log("Another window is syncing the offline heartbeats");
+      return;
+    }
 
-        const requestOptions = {
-          hostname: url.hostname,
-          port: url.port || (url.protocol === "https:" ? 443 : 80),
-          path: url.pathname + url.search,
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Content-Length": Buffer.byteLength(data),
-            Authorization: `Bearer ${apiKey}`,
-          },
-          protocol: url.protocol,
-        };
-
-        await new Promise<void>((resolve, reject) => {
-          const req = (url.protocol === "https:" ? https : http).request(
-            requestOptions,
-            (res) => {
-              if (
-                res.statusCode &&
-                res.statusCode >= 200 &&
-                res.statusCode < 300
-              ) {
-                resolve();
-              } else if (res.statusCode === 401) {
-                this.setApiKeyStatus(false);
-                reject(
-                  new Error(`Invalid API key (status code: ${res.statusCode})`),
-                );
-              } else {
-                reject(new Error(`Failed with status code: ${res.statusCode}`));
-              }
-            },
-          );
+    let batchSize = MAX_BATCH_SIZE;
+    try {
+      while (connection.offlineQueue.size > 0) {
+        const pending = connection.offlineQueue.peek(batchSize);
+        const batch = pending.map((heartbeat) => ({
+          ...heartbeat,
+          timestamp:
+            typeof heartbeat.timestamp === "number"
+              ? new Date(heartbeat.timestamp).toISOString()
+              : heartbeat.timestamp,
+        }));
 
-          req.on("error", (err) => {
-            this.setOnlineStatus(false);
-            reject(err);
+        try {
+          await request(new URL("/api/external/batch", baseUrl), {
+            method: "POST",
+            apiKey,
+            body: batch,
           });
-          req.write(data);
-          req.end();
-        });
 
-        this.setOnlineStatus(true);
-        this.setApiKeyStatus(true);
-        this.saveOfflineHeartbeats();
+          await connection.offlineQueue.remove(pending);
+          this.updateQueuedCount();
+          if (this.statusBar) {
+            this.statusBar.setLastSyncTime(Date.now());
+          }
+          this.setOnlineStatus(true, connection);
+          this.setApiKeyStatus(true, connection);
 
-        this.unsyncedLocalSeconds = 0;
-      } catch (error) {
-        log(
-          `Error syncing offline heartbeats batch: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        this.offlineHeartbeats = [...batch, ...this.offlineHeartbeats];
-        this.saveOfflineHeartbeats();
+          this.unsyncedLocalSeconds = 0;
+        } catch (error) {
+          log(
+            `Error syncing offline heartbeats batch: ${describeError(error)}`,
+          );
 
-        if (error instanceof Error && error.message.includes("API key")) {
-          this.setApiKeyStatus(false);
-        } else {
-          this.setOnlineStatus(false);
+          if (isTooLargeError(error) && pending.length > 1) {
+            batchSize = Math.ceil(pending.length / 2);
+            continue;
+          }
+          if (isRejectedError(error) || isTooLargeError(error)) {
+            // Sending the batch again after the next reconnect would only get
+            // the same answer, so it is set aside and the sync goes on.
+            await connection.offlineQueue.quarantine(pending);
+            await connection.offlineQueue.remove(pending);
+            this.updateQueuedCount();
+            continue;
+          }
+          if (isUnauthorizedError(error)) {
+            this.setApiKeyStatus(false, connection);
+          } else {
+            this.setOnlineStatus(false, connection);
+          }
+          break;
         }
-        break;
       }
+    } finally {
+      await connection.offlineQueue.releaseSyncLease();
     }
+  }
 
-    if (this.offlineHeartbeats.length === 0) {
-      this.fetchDailySummary();
+  private async getGitApi(): Promise<any | undefined> {
+    if (this.gitApi) return this.gitApi;
+
+    const gitExtension = vscode.extensions.getExtension<{
+      getAPI(version: number): any;
+    }>("vscode.git");
+    if (!gitExtension) {
+      log("Git extension not found.");
+      return undefined;
+    }
+
+    if (!gitExtension.isActive) {
+      await gitExtension.activate();
+      log("Git extension activated.");
     }
-  }
 
-  private async getGitBranch(): Promise<string | undefined> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) return undefined;
+    const git = gitExtension.exports.getAPI(1);
+    if (!git) {
+      log("Git API not available.");
+      return undefined;
+    }
+
+    this.gitApi = git;
+    return git;
+  }
 
+  private async watchGitRepositories(): Promise<void> {
     try {
-      const gitExtension = vscode.extensions.getExtension("vscode.git");
-      if (!gitExtension) return undefined;
+      const git = await this.getGitApi();
+      if (!git) return;
+
+      const watchers = new Map<any, vscode.Disposable>();
+      const watch = (repository: any) => {
+        let head: string | undefined = repository.state.HEAD?.name;
+        watchers.set(
+          repository,
+          repository.state.onDidChange(() => {
+            const newHead: string | undefined = repository.state.HEAD?.name;
+            if (newHead === head) return;
+            const previousHead = head;
+            head = newHead;
+            // The HEAD is only unknown until the repository state has loaded.
+            if (previousHead === undefined) return;
+            log(
+              `Branch changed in ${repository.rootUri.fsPath}: ${previousHead} -> ${newHead}`,
+            );
+
+            const activeUri = this.activeDocumentInfo?.uri;
+            const userIsEffectivelyActive =
+              this.isWindowFocused &&
+              Date.now() - this.lastActivity <
+                this.userInactivityThresholdMilliseconds;
+            if (
+              activeUri &&
+              userIsEffectivelyActive &&
+              git.getRepository(activeUri) === repository
+            ) {
+              this.sendHeartbeat(true);
+            }
+          }),
+        );
+      };
+
+      git.repositories.forEach(watch);
+      this.context.subscriptions.push(
+        git.onDidOpenRepository(watch),
+        git.onDidCloseRepository((repository: any) => {
+          watchers.get(repository)?.dispose();
+          watchers.delete(repository);
+        }),
+        {
+          dispose: () => {
+            watchers.forEach((watcher) => watcher.dispose());
+            watchers.clear();
+          },
+        },
+      );
+    } catch (error) {
+      log(
+        `Error watching git repositories: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
 
-      const git = gitExtension.exports.getAPI(1);
-      const repository = git.repositories[0];
+  private async getGitBranch(fileUri: vscode.Uri): Promise<string | undefined> {
+    try {
+      const git = await this.getGitApi();
+      const repository = git?.getRepository(fileUri);
       if (!repository) return undefined;
 
       return repository.state.HEAD?.name;
@@ -492,216 +1117,303 @@ export class HeartbeatManager {
     }
   }
 
+  private getActivityTarget(): ActivityTarget | undefined {
+    if (this.activityCategory === "terminal") {
+      return this.getTerminalTarget();
+    }
+    if (
+      !vscode.window.activeTextEditor &&
+      !vscode.window.activeNotebookEditor
+    ) {
+      return undefined;
+    }
+    return this.activeDocumentInfo ?? undefined;
+  }
+
+  private getTerminalTarget(): ActivityTarget | undefined {
+    const cwd = vscode.window.activeTerminal?.shellIntegration?.cwd;
+    if (cwd?.scheme === "file" && vscode.workspace.getWorkspaceFolder(cwd)) {
+      return { uri: cwd, isDirectory: true };
+    }
+    const editorUri = this.activeDocumentInfo?.uri;
+    const workspaceFolder =
+      (editorUri && vscode.workspace.getWorkspaceFolder(editorUri)) ||
+      vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) return undefined;
+    return { uri: workspaceFolder.uri, isDirectory: true };
+  }
+
+  private getEditorPosition(
+    target: ActivityTarget,
+  ): Pick<Heartbeat, "lineCount" | "cursorLine"> | undefined {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.toString() !== target.uri.toString()) {
+      return undefined;
+    }
+    return {
+      lineCount: editor.document.lineCount,
+      cursorLine: editor.selection.active.line + 1,
+    };
+  }
+
   private async sendHeartbeat(force: boolean = false): Promise<void> {
-    const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor || !this.activeDocumentInfo) return;
+    const target = this.getActivityTarget();
+    if (!target || this.isPaused) return;
     const now = Date.now();
-    const fileChanged = this.lastFile !== activeEditor.document.uri.fsPath;
+    const category = this.activityCategory;
+    const fileChanged =
+      this.lastFile !== target.uri.fsPath || this.lastCategory !== category;
     const timeThresholdPassed =
       now - this.lastHeartbeat >= this.heartbeatInterval;
     if (!force && !fileChanged && !timeThresholdPassed) {
       return;
     }
-    this.lastFile = activeEditor.document.uri.fsPath;
+    this.lastFile = target.uri.fsPath;
+    this.lastCategory = category;
     this.lastHeartbeat = now;
     this.heartbeatCount++;
-    const project = await this.getProjectName(activeEditor.document.uri);
+    const position = this.getEditorPosition(target);
+    const editMetrics = await this.editMetrics.take(target.uri);
+    if (target.ignoredReason) {
+      log(`Skipping heartbeat for ${target.uri}: ${target.ignoredReason}`);
+      return;
+    }
+    const fileExclusionReason = target.isDirectory
+      ? undefined
+      : getFileExclusionReason(target.uri);
+    if (fileExclusionReason) {
+      log(
+        `Skipping heartbeat for ${target.uri.fsPath}: ${fileExclusionReason}`,
+      );
+      return;
+    }
+    const projectFile = await this.projectFiles.resolve(
+      target.uri,
+      target.isDirectory,
+    );
+    if (projectFile?.ignored) {
+      log(
+        `Skipping heartbeat for ${target.uri.fsPath}: marked as never track in ${projectFile.path}`,
+      );
+      return;
+    }
+    const project =
+      target.project ??
+      (await this.getProjectName(target.uri, target.isDirectory));
     if (!project) {
       log("No project name found for the current file, skipping heartbeat");
       return;
     }
-    const apiKey = await getApiKey();
-    const baseUrl = await getBaseUrl();
-    if (!apiKey || !baseUrl) {
+    const projectExclusionReason = getProjectExclusionReason(
+      project,
+      target.uri,
+    );
+    if (projectExclusionReason) {
+      log(
+        `Skipping heartbeat for ${target.uri.fsPath}: ${projectExclusionReason}`,
+      );
       return;
     }
-    const branch = await this.getGitBranch();
-    const heartbeat: Heartbeat = {
-      timestamp: new Date().toISOString(),
-      project,
-      language: this.activeDocumentInfo.language,
-      file: this.activeDocumentInfo.file,
-      branch,
-      editor: vscode.env.appName,
-      os:
-        process.platform === "win32"
-          ? "Windows"
-          : process.platform === "darwin"
-            ? "macOS"
-            : "Linux",
-    };
-    if (!this.isOnline) {
-      this.offlineHeartbeats.push(heartbeat);
-      this.saveOfflineHeartbeats();
+    this.rememberProject(project);
+    if (this.statusBar) {
+      this.statusBar.setActivity(project, target.language);
+    }
+    const isLocalMode = this.isLocalMode;
+    const connection = this.getConnection(resolveInstanceName(target.uri));
+    if (!isLocalMode) {
+      const apiKey = await getApiKey(connection.name);
+      const baseUrl = await getBaseUrl(connection.name);
+      if (!apiKey || !baseUrl) {
+        return;
+      }
+    }
+    const branch = await this.getGitBranch(target.uri);
+    const heartbeat = sanitizeHeartbeat(
+      {
+        timestamp: new Date().toISOString(),
+        project,
+        language: target.language,
+        file: target.file,
+        branch,
+        editor: vscode.env.appName,
+        os: getOsName(),
+        ...(category !== "coding" ? { category } : {}),
+        ...editMetrics,
+        ...position,
+      },
+      getPrivacyLevel(target.uri),
+      this.privacySalt,
+    );
+    if (isLocalMode) {
+      this.localStore.append(heartbeat);
       return;
     }
-    try {
-      const data = JSON.stringify(heartbeat);
-      const url = new URL(`${baseUrl}/api/external/heartbeat`);
-      const requestOptions = {
-        hostname: url.hostname,
-        port: url.port || (url.protocol === "https:" ? 443 : 80),
-        path: url.pathname + url.search,
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Content-Length": Buffer.byteLength(data),
-          Authorization: `Bearer ${apiKey}`,
-        },
-      };
-      await new Promise<void>((resolve, reject) => {
-        const req = (url.protocol === "https:" ? https : http).request(
-          requestOptions,
-          (res) => {
-            if (
-              res.statusCode &&
-              res.statusCode >= 200 &&
-              res.statusCode < 300
-            ) {
-              this.successCount++;
-              this.setOnlineStatus(true);
-              this.setApiKeyStatus(true);
-              this.unsyncedLocalSeconds = 0;
-              log(
-                `Heartbeat sent successfully for ${heartbeat.file} (${heartbeat.language}) in project ${heartbeat.project}`,
-              );
-              resolve();
-            } else if (res.statusCode === 401) {
-              this.setApiKeyStatus(false);
-              reject(
-                new Error(`Invalid API key (status code: ${res.statusCode})`),
-              );
-            } else {
-              this.failureCount++;
-              reject(new Error(`Failed with status code: ${res.statusCode}`));
-            }
-          },
-        );
-        req.on("error", (err) => {
-          this.failureCount++;
-          this.setOnlineStatus(false);
-          reject(err);
-        });
-        req.write(data);
-        req.end();
-      });
-    } catch (error) {
-      if (error instanceof Error && error.message.includes("API key")) {
-        this.setApiKeyStatus(false);
-      } else {
-        this.setOnlineStatus(false);
+    if (!connection.isOnline) {
+      await connection.offlineQueue.append(heartbeat);
+      this.updateQueuedCount();
+      return;
+    }
+    connection.pendingHeartbeats.add(heartbeat);
+  }
+
+  public async flushHeartbeats(): Promise<void> {
+    let sentHeartbeats = false;
+    for (const connection of this.connections.values()) {
+      if (await this.flushPendingHeartbeats(connection)) {
+        sentHeartbeats = true;
       }
-      this.offlineHeartbeats.push(heartbeat);
-      this.saveOfflineHeartbeats();
-      log(
-        `Failed to send heartbeat: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
+    }
+    if (sentHeartbeats) {
+      await this.fetchDailySummary();
     }
   }
 
-  private loadOfflineHeartbeats(): void {
-    try {
-      if (fs.existsSync(this.offlineQueuePath)) {
-        const data = fs.readFileSync(this.offlineQueuePath, "utf8");
-        this.offlineHeartbeats = JSON.parse(data);
+  /**
+   * Writes pending heartbeats to the offline journal before sending them, as
+   * the extension host may be killed while a request is still running. A batch
+   * that is in flight at that moment may therefore be sent twice.
+   */
+  public async flushOnShutdown(): Promise<void> {
+    for (const connection of this.connections.values()) {
+      await this.moveToOfflineQueue(connection);
+    }
+    await this.syncOfflineHeartbeats();
+  }
+
+  private async flushPendingHeartbeats(
+    connection: InstanceConnection,
+  ): Promise<boolean> {
+    if (
+      this.isLocalMode ||
+      connection.pendingHeartbeats.size === 0 ||
+      connection.isFlushing
+    ) {
+      return false;
+    }
+    if (!connection.isOnline) {
+      await this.moveToOfflineQueue(connection);
+      return false;
+    }
+    const apiKey = await getApiKey(connection.name);
+    const baseUrl = await getBaseUrl(connection.name);
+    if (!apiKey || !baseUrl) {
+      await this.moveToOfflineQueue(connection);
+      return false;
+    }
+
+    connection.isFlushing = true;
+    let sentHeartbeats = false;
+    let batchSize = MAX_BATCH_SIZE;
+    while (connection.pendingHeartbeats.size > 0) {
+      const batch = connection.pendingHeartbeats.peek(batchSize);
+      try {
+        await request(new URL("/api/external/batch", baseUrl), {
+          method: "POST",
+          apiKey,
+          body: batch,
+        });
+        connection.pendingHeartbeats.removeFirst(batch.length);
+        this.successCount += batch.length;
+        if (this.statusBar) {
+          this.statusBar.setLastSyncTime(Date.now());
+        }
+        this.setOnlineStatus(true, connection);
+        this.setApiKeyStatus(true, connection);
+        this.unsyncedLocalSeconds = 0;
+        sentHeartbeats = true;
+        log(`Sent ${batch.length} heartbeats to instance "${connection.name}"`);
+      } catch (error) {
+        if (isTooLargeError(error) && batch.length > 1) {
+          batchSize = Math.ceil(batch.length / 2);
+          continue;
+        }
+        if (isRejectedError(error) || isTooLargeError(error)) {
+          // Keeping the batch would hold back every later heartbeat.
+          connection.pendingHeartbeats.removeFirst(batch.length);
+          await connection.offlineQueue.quarantine(batch);
+          this.updateQueuedCount();
+          this.failureCount += batch.length;
+          log(`Heartbeats rejected by the server: ${describeError(error)}`);
+          continue;
+        }
+        await this.moveToOfflineQueue(connection);
+        if (isUnauthorizedError(error)) {
+          this.setApiKeyStatus(false, connection);
+        } else {
+          this.failureCount += batch.length;
+          this.setOnlineStatus(false, connection);
+        }
+        log(`Failed to send heartbeats: ${describeError(error)}`);
+        break;
       }
-    } catch (error) {
-      log(
-        `Error loading offline heartbeats: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
-      this.offlineHeartbeats = [];
     }
+    connection.isFlushing = false;
+    return sentHeartbeats;
   }
 
-  private saveOfflineHeartbeats(): void {
+  private async moveToOfflineQueue(
+    connection: InstanceConnection,
+  ): Promise<void> {
+    await connection.offlineQueue.appendMany(
+      connection.pendingHeartbeats.drain(),
+    );
+    this.updateQueuedCount();
+  }
+
+  private updateQueuedCount(): void {
+    if (this.statusBar) {
+      this.statusBar.setQueuedCount(this.offlineQueueSize);
+      this.statusBar.setRejectedCount(this.rejectedHeartbeatCount);
+    }
+  }
+
+  private async probeInstance(instance: string): Promise<boolean> {
+    const baseUrl = await getBaseUrl(instance);
     try {
-      fs.writeFileSync(
-        this.offlineQueuePath,
-        JSON.stringify(this.offlineHeartbeats),
-        "utf8",
-      );
+      await request(new URL("/", baseUrl), { method: "HEAD", timeout: 10000 });
+      return true;
     } catch (error) {
-      log(
-        `Error saving offline heartbeats: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
+      // Any other HTTP answer below 500 means the instance itself is
+      // reachable. A 404 means the base URL points somewhere else, so the
+      // queue is kept until the URL is fixed.
+      if (
+        error instanceof RequestError &&
+        error.statusCode !== undefined &&
+        error.statusCode !== 404 &&
+        error.statusCode < 500
+      ) {
+        return true;
+      }
+      log(`Health probe against ${baseUrl} failed: ${describeError(error)}`);
+      return false;
     }
   }
 
-  private makeRequest<T>(options: http.RequestOptions): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const req = (options.protocol === "https:" ? https : http).request(
-        options,
-        (res) => {
-          let data = "";
-          res.on("data", (chunk) => {
-            data += chunk;
-          });
-          res.on("end", () => {
-            if (
-              res.statusCode &&
-              res.statusCode >= 200 &&
-              res.statusCode < 300
-            ) {
-              try {
-                resolve(JSON.parse(data));
-              } catch (error) {
-                reject(
-                  new Error(
-                    `Invalid JSON response: ${
-                      error instanceof Error ? error.message : String(error)
-                    }`,
-                  ),
-                );
-              }
-            } else if (res.statusCode === 401) {
-              this.setApiKeyStatus(false);
-              reject(
-                new Error(`Invalid API key (status code: ${res.statusCode})`),
-              );
-            } else {
-              reject(
-                new Error(
-                  `Request failed with status code ${res.statusCode}: ${data}`,
-                ),
-              );
-            }
-          });
-        },
-      );
-      req.on("error", (error) => {
-        this.setOnlineStatus(false);
-        reject(error);
-      });
-      req.end();
-    });
+  private handleReconnect(connection: InstanceConnection): void {
+    this.setOnlineStatus(true, connection);
+    if (
+      connection.offlineQueue.size === 0 &&
+      connection.name === this.activeInstance
+    ) {
+      this.fetchDailySummary();
+    }
   }
 
   private async getProjectName(
     fileUri: vscode.Uri,
+    isDirectory: boolean = false,
   ): Promise<string | undefined> {
-    try {
-      const gitExtension = vscode.extensions.getExtension<{
-        getAPI(version: number): any;
-      }>("vscode.git");
-      if (!gitExtension) {
-        log("Git extension not found.");
-        return this.getProjectNameFromWorkspaceFolder(fileUri);
-      }
-
-      if (!gitExtension.isActive) {
-        await gitExtension.activate();
-        log("Git extension activated.");
-      }
+    const projectFile = await this.projectFiles.resolve(fileUri, isDirectory);
+    if (projectFile?.project) {
+      log(
+        `Using project name "${projectFile.project}" from ${projectFile.path}`,
+      );
+      return projectFile.project;
+    }
 
-      const git = gitExtension.exports.getAPI(1);
+    try {
+      const git = await this.getGitApi();
       if (!git) {
-        log("Git API not available.");
         return this.getProjectNameFromWorkspaceFolder(fileUri);
       }
 
@@ -778,32 +1490,201 @@ export class HeartbeatManager {
     return workspaceFolder?.name;
   }
 
-  private setOnlineStatus(isOnline: boolean): void {
-    if (this.isOnline !== isOnline) {
-      this.isOnline = isOnline;
-      if (this.statusBar) {
+  private setOnlineStatus(
+    isOnline: boolean,
+    connection: InstanceConnection,
+  ): void {
+    if (connection.isOnline !== isOnline) {
+      connection.isOnline = isOnline;
+      if (this.statusBar && connection.name === this.activeInstance) {
         this.statusBar.setOnlineStatus(isOnline);
       }
-      log(`Online status changed to: ${isOnline ? "online" : "offline"}`);
-      this.syncOfflineHeartbeats();
+      log(
+        `Online status of instance "${connection.name}" changed to: ${isOnline ? "online" : "offline"}`,
+      );
+      if (isOnline) {
+        connection.reconnectScheduler.stop();
+      } else {
+        connection.reconnectScheduler.start();
+      }
+      this.syncOfflineQueue(connection);
     }
   }
 
-  private setApiKeyStatus(isValid: boolean): void {
-    if (this.hasValidApiKey !== isValid) {
-      this.hasValidApiKey = isValid;
-      if (this.statusBar) {
+  private setApiKeyStatus(
+    isValid: boolean,
+    connection: InstanceConnection,
+  ): void {
+    if (connection.hasValidApiKey !== isValid) {
+      connection.hasValidApiKey = isValid;
+      if (this.statusBar && connection.name === this.activeInstance) {
         this.statusBar.setApiKeyStatus(isValid);
       }
-      log(`API key status changed to: ${isValid ? "valid" : "invalid"}`);
+      log(
+        `API key status of instance "${connection.name}" changed to: ${isValid ? "valid" : "invalid"}`,
+      );
+    }
+  }
+
+  private getConnection(name: string): InstanceConnection {
+    const existing = this.connections.get(name);
+    if (existing) return existing;
+
+    const connection: InstanceConnection = {
+      name,
+      offlineQueue: new OfflineQueue(this.configDir, name),
+      pendingHeartbeats: new HeartbeatBuffer(this.heartbeatInterval),
+      isFlushing: false,
+      reconnectScheduler: new ReconnectScheduler(
+        () => this.probeInstance(name),
+        () => this.handleReconnect(connection),
+      ),
+      isOnline: true,
+      hasValidApiKey: true,
+      isSyncing: false,
+    };
+    connection.reconnectScheduler.onDidChangeState((state) => {
+      if (this.statusBar && name === this.activeInstance) {
+        this.statusBar.setReconnectState(state);
+      }
+    });
+    this.connections.set(name, connection);
+    return connection;
+  }
+
+  private getInstanceLabel(): string | undefined {
+    return this.activeInstance === DEFAULT_INSTANCE
+      ? undefined
+      : this.activeInstance;
+  }
+
+  private updateActiveInstance(fileUri: vscode.Uri | undefined): void {
+    const instance = resolveInstanceName(fileUri);
+    if (instance === this.activeInstance) return;
+
+    log(`Active instance changed: ${this.activeInstance} -> ${instance}`);
+    this.activeInstance = instance;
+    this.todayLocalTotalSeconds = 0;
+    const connection = this.getConnection(instance);
+    if (this.statusBar) {
+      this.statusBar.setInstanceName(this.getInstanceLabel());
+      this.statusBar.setOnlineStatus(connection.isOnline);
+      this.statusBar.setApiKeyStatus(connection.hasValidApiKey);
+      this.statusBar.setReconnectState(connection.reconnectScheduler.state);
+    }
+  }
+
+  public setPaused(paused: boolean): void {
+    if (this.isPaused === paused) return;
+    this.isPaused = paused;
+    log(paused ? "Heartbeats paused" : "Heartbeats resumed");
+  }
+
+  public get activeProjectName(): string | undefined {
+    return this.recentProjects[0];
+  }
+
+  public get isLocalMode(): boolean {
+    return getTrackingMode() === "local";
+  }
+
+  public get localHeartbeatsToUpload(): number {
+    return this.localStore.pendingUploadCount;
+  }
+
+  /**
+   * Uploads the heartbeats recorded in local mode to the active instance.
+   * Progress is kept per batch, so a failed upload resumes where it stopped.
+   */
+  /**
+   * Sends the local history to an instance. Batches the instance rejects are
+   * set aside with its rejected offline heartbeats, so they can be resent.
+   */
+  public async uploadLocalHeartbeats(
+    instance: string,
+  ): Promise<{ uploaded: number; rejected: number }> {
+    const apiKey = await getApiKey(instance);
+    const baseUrl = await getBaseUrl(instance);
+    if (!apiKey || !baseUrl) {
+      throw new Error("No API key configured for the instance");
+    }
+
+    const connection = this.getConnection(instance);
+    let uploaded = 0;
+    let rejected = 0;
+    let batchSize = MAX_BATCH_SIZE;
+    let batch = this.localStore.peekPendingUpload(batchSize);
+    while (batch.length > 0) {
+      try {
+        await request(new URL("/api/external/batch", baseUrl), {
+          method: "POST",
+          apiKey,
+          body: batch,
+        });
+        uploaded += batch.length;
+      } catch (error) {
+        if (isTooLargeError(error) && batch.length > 1) {
+          batchSize = Math.ceil(batch.length / 2);
+          batch = this.localStore.peekPendingUpload(batchSize);
+          continue;
+        }
+        if (!isRejectedError(error) && !isTooLargeError(error)) {
+          throw error;
+        }
+        log(`Local heartbeats rejected by the server: ${describeError(error)}`);
+        await connection.offlineQueue.quarantine(batch);
+        rejected += batch.length;
+      }
+      this.localStore.markUploaded(batch.length);
+      batch = this.localStore.peekPendingUpload(batchSize);
+    }
+    this.updateQueuedCount();
+    log(
+      `Uploaded ${uploaded} local heartbeats to ${baseUrl}, ${rejected} were rejected`,
+    );
+    return { uploaded, rejected };
+  }
+
+  public get activeInstanceName(): string {
+    return this.activeInstance;
+  }
+
+  public get offlineQueueSize(): number {
+    let size = 0;
+    for (const connection of this.connections.values()) {
+      size += connection.offlineQueue.size;
+    }
+    return size;
+  }
+
+  public get rejectedHeartbeatCount(): number {
+    let count = 0;
+    for (const connection of this.connections.values()) {
+      count += connection.offlineQueue.rejectedCount;
+    }
+    return count;
+  }
+
+  /**
+   * Moves the heartbeats the server rejected back into the offline queues
+   * and sends them again. Returns how many were moved.
+   */
+  public async resendRejectedHeartbeats(): Promise<number> {
+    let count = 0;
+    for (const connection of this.connections.values()) {
+      count += await connection.offlineQueue.restoreRejected();
     }
+    this.updateQueuedCount();
+    await this.syncOfflineHeartbeats();
+    return count;
   }
 
   public dispose(): void {
-    this.saveOfflineHeartbeats();
-    if (this.activityAccumulatorIntervalId) {
-      clearInterval(this.activityAccumulatorIntervalId);
-      this.activityAccumulatorIntervalId = null;
+    this.statsEmitter.dispose();
+    this.clearTimers();
+    for (const connection of this.connections.values()) {
+      this.moveToOfflineQueue(connection);
+      connection.reconnectScheduler.dispose();
     }
   }
 }
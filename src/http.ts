@@ -0,0 +1,379 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as tls from "tls";
+import * as zlib from "zlib";
+import { log } from "./log";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export type RequestErrorKind =
+  | "unauthorized"
+  | "http"
+  | "timeout"
+  | "network"
+  | "tls"
+  | "invalidResponse"
+  | "rejected"
+  | "tooLarge";
+
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: RequestErrorKind,
+    public readonly statusCode?: number,
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+export interface RequestOptions {
+  method: "GET" | "POST" | "HEAD";
+  apiKey?: string;
+  body?: unknown;
+  timeout?: number;
+}
+
+export interface Response {
+  statusCode: number;
+  body: string;
+}
+
+export function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof RequestError && error.kind === "unauthorized";
+}
+
+/**
+ * A 400 or 422 answer means the server will never accept this request, so
+ * retrying it later does not help.
+ */
+export function isRejectedError(error: unknown): boolean {
+  return error instanceof RequestError && error.kind === "rejected";
+}
+
+/** A 413 answer, after which the request may succeed in smaller parts. */
+export function isTooLargeError(error: unknown): boolean {
+  return error instanceof RequestError && error.kind === "tooLarge";
+}
+
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function classifyNodeError(error: NodeJS.ErrnoException): RequestError {
+  if (error instanceof RequestError) return error;
+  const code = error.code ?? "";
+  if (
+    code.startsWith("CERT_") ||
+    code.startsWith("ERR_TLS_") ||
+    code.includes("SELF_SIGNED") ||
+    code === "UNABLE_TO_VERIFY_LEAF_SIGNATURE" ||
+    code === "UNABLE_TO_GET_ISSUER_CERT_LOCALLY"
+  ) {
+    return new RequestError(
+      `TLS error (${code}): ${error.message}. Add your instance's CA certificate to ziit.caCertificates if it is self-signed.`,
+      "tls",
+    );
+  }
+  if (code === "ETIMEDOUT" || code === "ESOCKETTIMEDOUT") {
+    return new RequestError(`Request timed out: ${error.message}`, "timeout");
+  }
+  return new RequestError(error.message, "network");
+}
+
+let cachedCaKey: string | undefined;
+let cachedCa: string[] | undefined;
+
+function getCaCertificates(): string[] | undefined {
+  const files = vscode.workspace
+    .getConfiguration("ziit")
+    .get<string[]>("caCertificates", []);
+  if (files.length === 0) return undefined;
+
+  const key = files.join("\n");
+  if (cachedCaKey === key) return cachedCa;
+
+  const extra: string[] = [];
+  for (const file of files) {
+    const resolved = file.startsWith("~/")
+      ? path.join(os.homedir(), file.slice(2))
+      : file;
+    try {
+      extra.push(fs.readFileSync(resolved, "utf8"));
+    } catch (error) {
+      log(`Error reading CA certificate ${resolved}: ${describeError(error)}`);
+    }
+  }
+  cachedCaKey = key;
+  cachedCa = extra.length > 0 ? [...tls.rootCertificates, ...extra] : undefined;
+  return cachedCa;
+}
+
+function isExcludedFromProxy(target: URL): boolean {
+  const configured = vscode.workspace
+    .getConfiguration("http")
+    .get<string[]>("noProxy", []);
+  const fromEnv = (process.env.NO_PROXY ?? process.env.no_proxy ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const hostname = target.hostname.toLowerCase();
+
+  return [...configured, ...fromEnv].some((entry) => {
+    if (entry === "*") return true;
+    const host = entry.toLowerCase().replace(/:\d+$/, "").replace(/^\*/, "");
+    if (host.startsWith(".")) {
+      return hostname.endsWith(host) || hostname === host.slice(1);
+    }
+    return hostname === host || hostname.endsWith(`.${host}`);
+  });
+}
+
+function getProxyUrl(target: URL): URL | undefined {
+  const configured = vscode.workspace
+    .getConfiguration("http")
+    .get<string>("proxy");
+  const fromEnv =
+    target.protocol === "https:"
+      ? (process.env.HTTPS_PROXY ??
+        process.env.https_proxy ??
+        process.env.HTTP_PROXY ??
+        process.env.http_proxy)
+      : (process.env.HTTP_PROXY ?? process.env.http_proxy);
+  const proxy = configured || fromEnv;
+  if (!proxy || isExcludedFromProxy(target)) return undefined;
+
+  try {
+    return new URL(proxy.includes("://") ? proxy : `http://${proxy}`);
+  } catch {
+    log(`Ignoring invalid proxy URL: ${proxy}`);
+    return undefined;
+  }
+}
+
+function getProxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) return undefined;
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(
+    proxy.password,
+  )}`;
+  return `Basic ${Buffer.from(credentials).toString("base64")}`;
+}
+
+function defaultPort(url: URL): number {
+  return url.port ? Number(url.port) : url.protocol === "https:" ? 443 : 80;
+}
+
+function openTunnel(
+  proxy: URL,
+  target: URL,
+  timeout: number,
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const authority = `${target.hostname}:${defaultPort(target)}`;
+    const proxyAuthorization = getProxyAuthorization(proxy);
+    const req = (proxy.protocol === "https:" ? https : http).request({
+      hostname: proxy.hostname,
+      port: defaultPort(proxy),
+      method: "CONNECT",
+      path: authority,
+      headers: {
+        Host: authority,
+        ...(proxyAuthorization
+          ? { "Proxy-Authorization": proxyAuthorization }
+          : {}),
+      },
+      timeout,
+    });
+    req.on("connect", (res, socket) => {
+      if (res.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(
+          new RequestError(
+            `Proxy ${proxy.host} refused the tunnel with status code ${res.statusCode}`,
+            "network",
+          ),
+        );
+      }
+    });
+    req.on("timeout", () => {
+      req.destroy(
+        new RequestError(`Proxy ${proxy.host} did not respond`, "timeout"),
+      );
+    });
+    req.on("error", (error) => reject(classifyNodeError(error)));
+    req.end();
+  });
+}
+
+function readBody(res: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const encoding = res.headers["content-encoding"];
+    const stream =
+      encoding === "gzip"
+        ? res.pipe(zlib.createGunzip())
+        : encoding === "deflate"
+          ? res.pipe(zlib.createInflate())
+          : res;
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    stream.on("error", (error) =>
+      reject(
+        new RequestError(
+          `Could not decode response: ${error.message}`,
+          "invalidResponse",
+          res.statusCode,
+        ),
+      ),
+    );
+  });
+}
+
+/**
+ * Sends a request to a Ziit instance, honouring VS Code's proxy settings,
+ * extra CA certificates and the request timeout. Responses outside the 2xx
+ * range are rejected with a classified RequestError.
+ */
+export async function request(
+  url: URL,
+  options: RequestOptions,
+): Promise<Response> {
+  const timeout =
+    options.timeout ??
+    vscode.workspace
+      .getConfiguration("ziit")
+      .get<number>("requestTimeout", DEFAULT_TIMEOUT_MS);
+  const strictSSL = vscode.workspace
+    .getConfiguration("http")
+    .get<boolean>("proxyStrictSSL", true);
+  const ca = getCaCertificates();
+  const proxy = getProxyUrl(url);
+  const isHttps = url.protocol === "https:";
+
+  const body =
+    options.body === undefined ? undefined : JSON.stringify(options.body);
+  const headers: http.OutgoingHttpHeaders = {
+    "Accept-Encoding": "gzip, deflate",
+  };
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`;
+  }
+  if (body !== undefined) {
+    headers["Content-Type"] = "application/json";
+    headers["Content-Length"] = Buffer.byteLength(body);
+  }
+
+  const requestOptions: https.RequestOptions = {
+    hostname: url.hostname,
+    port: defaultPort(url),
+    path: url.pathname + url.search,
+    method: options.method,
+    headers,
+    ca,
+    rejectUnauthorized: strictSSL,
+    servername: url.hostname,
+  };
+
+  let tunnel: net.Socket | undefined;
+  if (proxy && isHttps) {
+    const socket = await openTunnel(proxy, url, timeout);
+    tunnel = socket;
+    // Without an agent Node uses createConnection for this single request;
+    // `agent: false` would create a fresh agent that ignores it.
+    requestOptions.createConnection = () =>
+      tls.connect({
+        socket,
+        servername: url.hostname,
+        ca,
+        rejectUnauthorized: strictSSL,
+      });
+  } else if (proxy) {
+    const proxyAuthorization = getProxyAuthorization(proxy);
+    requestOptions.hostname = proxy.hostname;
+    requestOptions.port = defaultPort(proxy);
+    requestOptions.path = url.toString();
+    headers.Host = url.host;
+    if (proxyAuthorization) {
+      headers["Proxy-Authorization"] = proxyAuthorization;
+    }
+  }
+
+  const transport = isHttps ? https : http;
+
+  return new Promise<Response>((resolve, reject) => {
+    const req = transport.request(requestOptions, (res) => {
+      readBody(res).then((responseBody) => {
+        const statusCode = res.statusCode ?? 0;
+        if (statusCode >= 200 && statusCode < 300) {
+          resolve({ statusCode, body: responseBody });
+        } else if (statusCode === 401) {
+          reject(
+            new RequestError(
+              `Invalid API key (status code: ${statusCode})`,
+              "unauthorized",
+              statusCode,
+            ),
+          );
+        } else if (statusCode === 400 || statusCode === 422) {
+          reject(
+            new RequestError(
+              `Request rejected with status code ${statusCode}: ${responseBody}`,
+              "rejected",
+              statusCode,
+            ),
+          );
+        } else if (statusCode === 413) {
+          reject(
+            new RequestError(
+              `Request too large (status code: ${statusCode})`,
+              "tooLarge",
+              statusCode,
+            ),
+          );
+        } else {
+          reject(
+            new RequestError(
+              `Request failed with status code ${statusCode}: ${responseBody}`,
+              "http",
+              statusCode,
+            ),
+          );
+        }
+      }, reject);
+    });
+    req.setTimeout(timeout, () => {
+      req.destroy(
+        new RequestError(`Request timed out after ${timeout}ms`, "timeout"),
+      );
+    });
+    req.on("error", (error) => reject(classifyNodeError(error)));
+    req.on("close", () => tunnel?.destroy());
+    if (body !== undefined) {
+      req.write(body);
+    }
+    req.end();
+  });
+}
+
+export async function requestJson<T>(
+  url: URL,
+  options: RequestOptions,
+): Promise<T> {
+  const response = await request(url, options);
+  try {
+    return JSON.parse(response.body);
+  } catch (error) {
+    throw new RequestError(
+      `Invalid JSON response: ${describeError(error)}`,
+      "invalidResponse",
+      response.statusCode,
+    );
+  }
+}
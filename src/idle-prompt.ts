@@ -0,0 +1,48 @@
+import * as vscode from "vscode";
+import { formatDuration } from "./stats";
+
+const DISCARD = "Discard";
+const CHOOSE_PROJECT = "Choose Project…";
+const OTHER_PROJECT = "Other project…";
+
+async function pickProject(
+  recentProjects: readonly string[],
+): Promise<string | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    [...recentProjects, OTHER_PROJECT],
+    { placeHolder: "Count the time you were away on which project?" },
+  );
+  if (picked !== OTHER_PROJECT) return picked;
+
+  const project = await vscode.window.showInputBox({
+    prompt: "Project name",
+    ignoreFocusOut: true,
+  });
+  return project?.trim() || undefined;
+}
+
+/**
+ * Asks what to do with the time the user was away. Resolves to the project
+ * the time should be counted on, or `undefined` to discard it.
+ */
+export async function promptForAwayTime(
+  awayMilliseconds: number,
+  recentProjects: readonly string[],
+): Promise<string | undefined> {
+  const currentProject = recentProjects[0];
+  const countOnCurrent = currentProject && `Count on ${currentProject}`;
+  const actions = countOnCurrent
+    ? [countOnCurrent, CHOOSE_PROJECT, DISCARD]
+    : [CHOOSE_PROJECT, DISCARD];
+
+  const choice = await vscode.window.showInformationMessage(
+    `Welcome back! You were away for ${formatDuration(
+      Math.round(awayMilliseconds / 1000),
+    )}. Should this time be counted?`,
+    ...actions,
+  );
+
+  if (choice && choice === countOnCurrent) return currentProject;
+  if (choice === CHOOSE_PROJECT) return pickProject(recentProjects);
+  return undefined;
+}
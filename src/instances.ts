@@ -0,0 +1,67 @@
+import * as vscode from "vscode";
+import { log } from "./log";
+import { DEFAULT_INSTANCE, getInstanceNames, pickInstance } from "./config";
+import { matchesPathPattern } from "./filters";
+
+interface InstanceRule {
+  path?: string;
+  instance?: string;
+}
+
+/**
+ * Picks the instance that receives heartbeats for a file. The first matching
+ * `ziit.instanceRules` entry wins, then the workspace's `ziit.instance`.
+ */
+export function resolveInstanceName(fileUri?: vscode.Uri): string {
+  const config = vscode.workspace.getConfiguration("ziit", fileUri);
+  const instanceNames = getInstanceNames();
+
+  if (fileUri) {
+    const rules = config.get<InstanceRule[]>("instanceRules", []);
+    const rule = rules.find(
+      (candidate) =>
+        candidate.path &&
+        candidate.instance &&
+        matchesPathPattern(fileUri, candidate.path),
+    );
+    if (rule?.instance) {
+      if (instanceNames.includes(rule.instance)) {
+        return rule.instance;
+      }
+      log(`Ignoring instance rule for unknown instance "${rule.instance}"`);
+    }
+  }
+
+  const instance = config.get<string>("instance", DEFAULT_INSTANCE);
+  if (instanceNames.includes(instance)) {
+    return instance;
+  }
+  log(`Unknown instance "${instance}", using the default instance`);
+  return DEFAULT_INSTANCE;
+}
+
+export async function selectWorkspaceInstance(): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showErrorMessage(
+      "Open a workspace to select the Ziit instance it reports to",
+    );
+    return;
+  }
+  if (getInstanceNames().length === 1) {
+    vscode.window.showInformationMessage(
+      "Add named instances to ziit.instances to route workspaces to them",
+    );
+    return;
+  }
+  const instance = await pickInstance(
+    "Select the Ziit instance for this workspace",
+  );
+  if (!instance) {
+    log("Instance selection cancelled");
+    return;
+  }
+  await vscode.workspace
+    .getConfiguration("ziit")
+    .update("instance", instance, vscode.ConfigurationTarget.Workspace);
+  log(`Workspace now reports to instance "${instance}"`);
+}
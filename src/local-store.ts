@@ -0,0 +1,225 @@
+import * as fs from "fs";
+import * as path from "path";
+import { log } from "./log";
+import { describeError } from "./http";
+import type { Heartbeat } from "./heartbeat";
+import {
+  toDateKey,
+  type StatsResponse,
+  type StatsSummary,
+  type StatsTimeRange,
+} from "./stats";
+
+const STORE_FILE_NAME = "local_heartbeats.jsonl";
+const UPLOAD_STATE_FILE_NAME = "local_heartbeats.uploaded.json";
+
+const TIME_RANGE_DAYS: Record<StatsTimeRange, number> = {
+  today: 1,
+  week: 7,
+  month: 30,
+};
+
+interface UploadState {
+  uploadedCount: number;
+}
+
+function getTime(heartbeat: Heartbeat): number {
+  return new Date(heartbeat.timestamp).getTime();
+}
+
+function createSummary(date: string): StatsSummary {
+  return {
+    date,
+    totalSeconds: 0,
+    projects: {},
+    languages: {},
+    editors: {},
+    os: {},
+    hourlyData: Array.from({ length: 24 }, () => ({ seconds: 0 })),
+  };
+}
+
+function addSeconds(
+  entries: Record<string, number>,
+  name: string | undefined,
+  seconds: number,
+): void {
+  const key = name || "Unknown";
+  entries[key] = (entries[key] ?? 0) + seconds;
+}
+
+/**
+ * Heartbeats recorded in local mode are kept in an append-only JSONL file in
+ * the Ziit config directory, which every editor window writes to. Stats are
+ * computed from it the same way the server does: the time up to the next
+ * heartbeat counts for the earlier one unless the gap exceeds the idle
+ * timeout. The number of heartbeats already uploaded to an instance is kept
+ * next to it so an upload can be resumed.
+ */
+export class LocalHeartbeatStore {
+  private storePath: string;
+  private uploadStatePath: string;
+  private entries: Heartbeat[] = [];
+  private loadedSize: number = -1;
+  private loadedModifiedTime: number = 0;
+
+  constructor(configDir: string) {
+    this.storePath = path.join(configDir, STORE_FILE_NAME);
+    this.uploadStatePath = path.join(configDir, UPLOAD_STATE_FILE_NAME);
+  }
+
+  public get size(): number {
+    this.reload();
+    return this.entries.length;
+  }
+
+  public get pendingUploadCount(): number {
+    return Math.max(0, this.size - this.getUploadedCount());
+  }
+
+  public append(heartbeat: Heartbeat): void {
+    try {
+      // A crash can leave a partial last line behind, which the new line must
+      // not be glued to. The partial line is skipped when reading.
+      const separator = this.endsWithPartialLine() ? "\n" : "";
+      fs.appendFileSync(
+        this.storePath,
+        `${separator}${JSON.stringify(heartbeat)}\n`,
+        { encoding: "utf8" },
+      );
+    } catch (error) {
+      log(`Error writing to local heartbeat store: ${describeError(error)}`);
+    }
+  }
+
+  public peekPendingUpload(count: number): Heartbeat[] {
+    this.reload();
+    const start = this.getUploadedCount();
+    return this.entries.slice(start, start + count);
+  }
+
+  public markUploaded(count: number): void {
+    const state: UploadState = {
+      uploadedCount: Math.min(this.size, this.getUploadedCount() + count),
+    };
+    try {
+      fs.writeFileSync(this.uploadStatePath, JSON.stringify(state), "utf8");
+    } catch (error) {
+      log(`Error saving local upload progress: ${describeError(error)}`);
+    }
+  }
+
+  public computeStats(
+    timeRange: StatsTimeRange,
+    idleTimeoutMilliseconds: number,
+  ): StatsResponse {
+    this.reload();
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - (TIME_RANGE_DAYS[timeRange] - 1));
+    const startTime = start.getTime();
+
+    const heartbeats = this.entries
+      .filter((heartbeat) => !Number.isNaN(getTime(heartbeat)))
+      .sort((a, b) => getTime(a) - getTime(b));
+    const summaries = new Map<string, StatsSummary>();
+
+    for (let index = 0; index < heartbeats.length - 1; index++) {
+      const heartbeat = heartbeats[index];
+      const time = getTime(heartbeat);
+      const gap = getTime(heartbeats[index + 1]) - time;
+      if (time < startTime || gap <= 0 || gap > idleTimeoutMilliseconds) {
+        continue;
+      }
+
+      const seconds = Math.round(gap / 1000);
+      const date = new Date(time);
+      const dateKey = toDateKey(date);
+      const summary = summaries.get(dateKey) ?? createSummary(dateKey);
+      summaries.set(dateKey, summary);
+      summary.totalSeconds += seconds;
+      addSeconds(summary.projects, heartbeat.project, seconds);
+      addSeconds(summary.languages, heartbeat.language, seconds);
+      addSeconds(summary.editors, heartbeat.editor, seconds);
+      addSeconds(summary.os, heartbeat.os, seconds);
+      summary.hourlyData[date.getHours()].seconds += seconds;
+    }
+
+    return {
+      summaries: [...summaries.values()].sort((a, b) =>
+        a.date.localeCompare(b.date),
+      ),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  }
+
+  private endsWithPartialLine(): boolean {
+    let fd: number;
+    try {
+      fd = fs.openSync(this.storePath, "r");
+    } catch {
+      return false;
+    }
+    try {
+      const size = fs.fstatSync(fd).size;
+      if (size === 0) return false;
+      const lastByte = Buffer.alloc(1);
+      fs.readSync(fd, lastByte, 0, 1, size - 1);
+      return lastByte[0] !== 0x0a;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private getUploadedCount(): number {
+    try {
+      const state: UploadState = JSON.parse(
+        fs.readFileSync(this.uploadStatePath, "utf8"),
+      );
+      return typeof state.uploadedCount === "number" ? state.uploadedCount : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /** Other windows append to the same file, so it is re-read when it changed. */
+  private reload(): void {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(this.storePath);
+    } catch {
+      this.entries = [];
+      this.loadedSize = -1;
+      return;
+    }
+    if (
+      stats.size === this.loadedSize &&
+      stats.mtimeMs === this.loadedModifiedTime
+    ) {
+      return;
+    }
+
+    let data: string;
+    try {
+      data = fs.readFileSync(this.storePath, "utf8");
+    } catch (error) {
+      log(`Error reading local heartbeat store: ${describeError(error)}`);
+      return;
+    }
+
+    this.entries = [];
+    for (const line of data.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const heartbeat = JSON.parse(line);
+        if (heartbeat && typeof heartbeat === "object" && heartbeat.timestamp) {
+          this.entries.push(heartbeat);
+        }
+      } catch {
+        // A line another window is still writing is picked up next time.
+      }
+    }
+    this.loadedSize = stats.size;
+    this.loadedModifiedTime = stats.mtimeMs;
+  }
+}
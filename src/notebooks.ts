@@ -0,0 +1,43 @@
+import * as vscode from "vscode";
+
+export const NOTEBOOK_CELL_SCHEME = "vscode-notebook-cell";
+
+/**
+ * Finds the notebook a cell document belongs to, or `undefined` when the
+ * document is not a notebook cell.
+ */
+export function findNotebookForCell(
+  document: vscode.TextDocument,
+): vscode.NotebookDocument | undefined {
+  if (document.uri.scheme !== NOTEBOOK_CELL_SCHEME) return undefined;
+  return vscode.workspace.notebookDocuments.find((notebook) =>
+    notebook.getCells().some((cell) => cell.document === document),
+  );
+}
+
+/**
+ * Prefers the kernel language stored in the notebook metadata and falls back
+ * to the language of the given cell or the first code cell.
+ */
+export function getNotebookLanguage(
+  notebook: vscode.NotebookDocument,
+  cellDocument?: vscode.TextDocument,
+): string {
+  const metadata = notebook.metadata as any;
+  const kernelLanguage =
+    metadata?.metadata?.language_info?.name ??
+    metadata?.language_info?.name ??
+    metadata?.metadata?.kernelspec?.language ??
+    metadata?.kernelspec?.language;
+  if (typeof kernelLanguage === "string" && kernelLanguage) {
+    return kernelLanguage;
+  }
+
+  if (cellDocument && cellDocument.languageId !== "markdown") {
+    return cellDocument.languageId;
+  }
+  const codeCell = notebook
+    .getCells()
+    .find((cell) => cell.kind === vscode.NotebookCellKind.Code);
+  return codeCell?.document.languageId ?? notebook.notebookType;
+}
@@ -0,0 +1,496 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { log } from "./log";
+import { describeError } from "./http";
+import type { Heartbeat } from "./heartbeat";
+import { DEFAULT_INSTANCE } from "./config";
+
+const JOURNAL_FILE_PREFIX = "offline_heartbeats";
+const LEGACY_QUEUE_FILE_NAME = "offline_heartbeats.json";
+const LOCK_TIMEOUT_MILLISECONDS = 2000;
+const STALE_LOCK_MILLISECONDS = 10000;
+const STALE_SYNC_LEASE_MILLISECONDS = 5 * 60 * 1000;
+
+function getJournalFileName(instance: string, suffix: string = ""): string {
+  if (instance === DEFAULT_INSTANCE) {
+    return `${JOURNAL_FILE_PREFIX}${suffix}.jsonl`;
+  }
+  return `${JOURNAL_FILE_PREFIX}.${instance.replace(/[^\w.-]/g, "_")}${suffix}.jsonl`;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function wait(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Offline heartbeats are kept in an append-only JSONL journal. New heartbeats
+ * are appended as single lines, so a crash can at most leave one partial line
+ * behind, which is dropped on the next load. Removing synced heartbeats
+ * rewrites the journal into a temporary file that is renamed over the old one.
+ * Heartbeats the server rejected are moved to a separate file, so they neither
+ * block the queue nor get lost.
+ *
+ * Every editor window shares the journal. Writes happen under a lock
+ * directory and always start from the current file contents, so heartbeats
+ * other windows appended are kept, and only the window holding the sync lease
+ * sends the journal, so nothing is sent twice.
+ */
+export class OfflineQueue {
+  private entries: Heartbeat[] = [];
+  private hasInvalidLines: boolean = false;
+  private loadedSize: number = -1;
+  private loadedModifiedTime: number = 0;
+  private rejectedCountCache: number = 0;
+  private rejectedSize: number = -1;
+  private rejectedModifiedTime: number = 0;
+  private journalPath: string;
+  private lockPath: string;
+  private syncLeasePath: string;
+  private rejectedPath: string;
+  private legacyQueuePath: string;
+
+  constructor(configDir: string, instance: string = DEFAULT_INSTANCE) {
+    this.journalPath = path.join(configDir, getJournalFileName(instance));
+    this.rejectedPath = path.join(
+      configDir,
+      getJournalFileName(instance, ".rejected"),
+    );
+    this.lockPath = `${this.journalPath}.lock`;
+    this.syncLeasePath = `${this.journalPath}.sync`;
+    this.legacyQueuePath = path.join(configDir, LEGACY_QUEUE_FILE_NAME);
+    this.reload();
+    log(`Loaded ${this.entries.length} offline heartbeats from the journal`);
+    if (instance === DEFAULT_INSTANCE) {
+      this.withLock(() => this.migrateLegacyQueue());
+    }
+  }
+
+  public get size(): number {
+    this.reload();
+    return this.entries.length;
+  }
+
+  /** Number of heartbeats the server rejected, kept in the rejected file. */
+  public get rejectedCount(): number {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(this.rejectedPath);
+    } catch {
+      return 0;
+    }
+    if (
+      stats.size !== this.rejectedSize ||
+      stats.mtimeMs !== this.rejectedModifiedTime
+    ) {
+      this.rejectedCountCache = this.readRejected().length;
+      this.rejectedSize = stats.size;
+      this.rejectedModifiedTime = stats.mtimeMs;
+    }
+    return this.rejectedCountCache;
+  }
+
+  public peek(count: number): Heartbeat[] {
+    this.reload();
+    return this.entries.slice(0, count);
+  }
+
+  public append(heartbeat: Heartbeat): Promise<void> {
+    return this.appendMany([heartbeat]);
+  }
+
+  public async appendMany(heartbeats: Heartbeat[]): Promise<void> {
+    if (heartbeats.length === 0) return;
+    const exceedsLimit = await this.withLock(() => {
+      this.reload();
+      if (this.hasInvalidLines) {
+        this.write();
+      }
+      try {
+        fs.appendFileSync(
+          this.journalPath,
+          heartbeats
+            .map((heartbeat) => `${JSON.stringify(heartbeat)}\n`)
+            .join(""),
+          { encoding: "utf8" },
+        );
+        this.entries.push(...heartbeats);
+        this.markLoaded();
+      } catch (error) {
+        log(`Error appending to offline journal: ${describeError(error)}`);
+      }
+      return this.entries.length > this.getMaxEntries();
+    });
+    if (exceedsLimit) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Only one window at a time may send the journal. The lease is taken over
+   * when the window holding it is gone or has not finished for a long time.
+   */
+  public tryAcquireSyncLease(): Promise<boolean> {
+    return this.withLock(() => {
+      try {
+        const lease = JSON.parse(fs.readFileSync(this.syncLeasePath, "utf8"));
+        if (
+          lease.pid !== process.pid &&
+          isProcessAlive(lease.pid) &&
+          Date.now() - lease.time < STALE_SYNC_LEASE_MILLISECONDS
+        ) {
+          return false;
+        }
+      } catch {
+        // No lease or an unreadable one, which is free to take.
+      }
+      try {
+        fs.writeFileSync(
+          this.syncLeasePath,
+          JSON.stringify({ pid: process.pid, time: Date.now() }),
+          "utf8",
+        );
+        return true;
+      } catch (error) {
+        log(`Error taking offline sync lease: ${describeError(error)}`);
+        return false;
+      }
+    });
+  }
+
+  public releaseSyncLease(): Promise<void> {
+    return this.withLock(() => {
+      try {
+        const lease = JSON.parse(fs.readFileSync(this.syncLeasePath, "utf8"));
+        if (lease.pid === process.pid) {
+          fs.rmSync(this.syncLeasePath, { force: true });
+        }
+      } catch {
+        // Already released or taken over.
+      }
+    });
+  }
+
+  /**
+   * Sets heartbeats the server rejected aside. Only the newest ones are kept
+   * once there are more than the queue size limit.
+   */
+  public async quarantine(heartbeats: Heartbeat[]): Promise<void> {
+    if (heartbeats.length === 0) return;
+    await this.withLock(() => {
+      let rejected = [...this.readRejected(), ...heartbeats];
+      const maxEntries = this.getMaxEntries();
+      if (rejected.length > maxEntries) {
+        log(
+          `Dropped ${rejected.length - maxEntries} rejected heartbeats exceeding the queue size limit`,
+        );
+        rejected = rejected.slice(rejected.length - maxEntries);
+      }
+      try {
+        fs.writeFileSync(
+          this.rejectedPath,
+          rejected
+            .map((heartbeat) => `${JSON.stringify(heartbeat)}\n`)
+            .join(""),
+          "utf8",
+        );
+        log(
+          `Moved ${heartbeats.length} rejected heartbeats to ${this.rejectedPath}`,
+        );
+      } catch (error) {
+        log(`Error saving rejected heartbeats: ${describeError(error)}`);
+      }
+    });
+  }
+
+  /**
+   * Moves the rejected heartbeats back into the journal so they are sent
+   * again, e.g. after the server was updated. Returns how many were moved.
+   */
+  public async restoreRejected(): Promise<number> {
+    return this.withLock(() => {
+      const rejected = this.readRejected();
+      if (rejected.length === 0) return 0;
+      this.reload();
+      this.entries.push(...rejected);
+      this.write();
+      try {
+        fs.rmSync(this.rejectedPath, { force: true });
+      } catch (error) {
+        log(`Error removing rejected heartbeats: ${describeError(error)}`);
+      }
+      log(`Moved ${rejected.length} rejected heartbeats back to the journal`);
+      return rejected.length;
+    });
+  }
+
+  /**
+   * Removes heartbeats returned by `peek` once they were handled. They are
+   * matched by content, as another window may have dropped some meanwhile.
+   */
+  public async remove(heartbeats: Heartbeat[]): Promise<void> {
+    if (heartbeats.length === 0) return;
+    await this.withLock(() => {
+      this.reload();
+      const removed = new Map<string, number>();
+      for (const heartbeat of heartbeats) {
+        const key = JSON.stringify(heartbeat);
+        removed.set(key, (removed.get(key) ?? 0) + 1);
+      }
+      this.entries = this.entries.filter((heartbeat) => {
+        const key = JSON.stringify(heartbeat);
+        const count = removed.get(key) ?? 0;
+        if (count === 0) return true;
+        removed.set(key, count - 1);
+        return false;
+      });
+      this.write();
+    });
+  }
+
+  public async compact(): Promise<void> {
+    await this.withLock(() => {
+      this.reload();
+      this.write();
+    });
+  }
+
+  /** Applies the limits and rewrites the journal. Requires the lock. */
+  private write(): void {
+    const beforeCount = this.entries.length;
+    this.applyLimits();
+    if (this.entries.length < beforeCount) {
+      log(
+        `Dropped ${beforeCount - this.entries.length} offline heartbeats exceeding the queue size or age limit`,
+      );
+    }
+    if (this.hasInvalidLines) {
+      log(
+        "Recovered offline journal, dropped partially written or invalid lines",
+      );
+    }
+
+    const tempPath = `${this.journalPath}.tmp`;
+    try {
+      const data = this.entries
+        .map((heartbeat) => `${JSON.stringify(heartbeat)}\n`)
+        .join("");
+      const fd = fs.openSync(tempPath, "w");
+      try {
+        fs.writeSync(fd, data);
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, this.journalPath);
+      this.hasInvalidLines = false;
+      this.markLoaded();
+    } catch (error) {
+      log(`Error compacting offline journal: ${describeError(error)}`);
+      this.loadedSize = -1;
+      try {
+        fs.rmSync(tempPath, { force: true });
+      } catch {
+        // The next compaction overwrites the temporary file anyway.
+      }
+    }
+  }
+
+  /**
+   * Runs a synchronous action while holding the lock directory shared by all
+   * windows. A lock left behind by a crashed window expires after a while.
+   */
+  private async withLock<T>(action: () => T): Promise<T> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MILLISECONDS;
+    let isLocked = false;
+    while (!isLocked) {
+      try {
+        fs.mkdirSync(this.lockPath);
+        isLocked = true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          log(`Error locking offline journal: ${describeError(error)}`);
+          break;
+        }
+        if (this.isLockStale()) {
+          fs.rmSync(this.lockPath, { recursive: true, force: true });
+        } else if (Date.now() > deadline) {
+          log("Offline journal is still locked, writing without the lock");
+          break;
+        } else {
+          await wait(10);
+        }
+      }
+    }
+    try {
+      return action();
+    } finally {
+      if (isLocked) {
+        fs.rmSync(this.lockPath, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private isLockStale(): boolean {
+    try {
+      return (
+        Date.now() - fs.statSync(this.lockPath).mtimeMs >
+        STALE_LOCK_MILLISECONDS
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /** Remembers the journal state the in-memory entries correspond to. */
+  private markLoaded(): void {
+    try {
+      const stats = fs.statSync(this.journalPath);
+      this.loadedSize = stats.size;
+      this.loadedModifiedTime = stats.mtimeMs;
+    } catch {
+      this.loadedSize = -1;
+    }
+  }
+
+  /**
+   * Re-reads the journal only when another window changed it since this one
+   * last read or wrote it. Partially written lines are skipped here and
+   * dropped by the next write under the lock.
+   */
+  private reload(): void {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(this.journalPath);
+    } catch {
+      this.entries = [];
+      this.hasInvalidLines = false;
+      this.loadedSize = -1;
+      return;
+    }
+    if (
+      stats.size === this.loadedSize &&
+      stats.mtimeMs === this.loadedModifiedTime
+    ) {
+      return;
+    }
+
+    let data: string;
+    try {
+      data = fs.readFileSync(this.journalPath, "utf8");
+    } catch (error) {
+      log(`Error reading offline journal: ${describeError(error)}`);
+      return;
+    }
+
+    this.entries = [];
+    let skippedLines = 0;
+    for (const line of data.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const heartbeat = JSON.parse(line);
+        if (heartbeat && typeof heartbeat === "object" && heartbeat.timestamp) {
+          this.entries.push(heartbeat);
+        } else {
+          skippedLines++;
+        }
+      } catch {
+        skippedLines++;
+      }
+    }
+    this.hasInvalidLines =
+      skippedLines > 0 || (data.length > 0 && !data.endsWith("\n"));
+    this.loadedSize = stats.size;
+    this.loadedModifiedTime = stats.mtimeMs;
+  }
+
+  private readRejected(): Heartbeat[] {
+    let data: string;
+    try {
+      data = fs.readFileSync(this.rejectedPath, "utf8");
+    } catch {
+      return [];
+    }
+    const heartbeats: Heartbeat[] = [];
+    for (const line of data.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        heartbeats.push(JSON.parse(line));
+      } catch {
+        // A partially written line is dropped by the next rewrite.
+      }
+    }
+    return heartbeats;
+  }
+
+  private migrateLegacyQueue(): void {
+    if (!fs.existsSync(this.legacyQueuePath)) return;
+
+    try {
+      const data = fs.readFileSync(this.legacyQueuePath, "utf8");
+      const heartbeats = data.trim() ? JSON.parse(data) : [];
+      if (!Array.isArray(heartbeats)) {
+        throw new Error("expected a JSON array");
+      }
+      this.reload();
+      this.entries.push(...heartbeats);
+      this.write();
+      fs.unlinkSync(this.legacyQueuePath);
+      log(
+        `Migrated ${heartbeats.length} offline heartbeats from ${this.legacyQueuePath} to ${this.journalPath}`,
+      );
+    } catch (error) {
+      const backupPath = `${this.legacyQueuePath}.corrupt`;
+      log(
+        `Could not migrate offline heartbeats from ${this.legacyQueuePath}: ${describeError(
+          error,
+        )}. Keeping it as ${backupPath}`,
+      );
+      try {
+        fs.renameSync(this.legacyQueuePath, backupPath);
+      } catch (renameError) {
+        log(
+          `Error keeping unreadable offline queue: ${describeError(renameError)}`,
+        );
+      }
+    }
+  }
+
+  private applyLimits(): void {
+    const maxAgeDays = this.getMaxAgeDays();
+    if (maxAgeDays > 0) {
+      const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+      this.entries = this.entries.filter((heartbeat) => {
+        const time = new Date(heartbeat.timestamp).getTime();
+        return Number.isNaN(time) || time >= cutoff;
+      });
+    }
+
+    const maxEntries = this.getMaxEntries();
+    if (this.entries.length > maxEntries) {
+      this.entries = this.entries.slice(this.entries.length - maxEntries);
+    }
+  }
+
+  private getMaxEntries(): number {
+    const value = vscode.workspace
+      .getConfiguration("ziit")
+      .get<number>("offlineQueue.maxEntries", 50000);
+    return value > 0 ? value : Number.POSITIVE_INFINITY;
+  }
+
+  private getMaxAgeDays(): number {
+    return vscode.workspace
+      .getConfiguration("ziit")
+      .get<number>("offlineQueue.maxAgeDays", 30);
+  }
+}
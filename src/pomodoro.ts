@@ -0,0 +1,183 @@
+import * as vscode from "vscode";
+import { log } from "./log";
+import type { HeartbeatManager } from "./heartbeat";
+import { toDateKey } from "./stats";
+
+export type PomodoroPhase = "idle" | "work" | "break";
+
+const COMPLETED_STATE_KEY = "ziit.pomodoros";
+const HISTORY_DAYS = 30;
+
+type PomodoroHistory = Record<string, Record<string, number>>;
+
+function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+function getMinutesSetting(key: string, defaultValue: number): number {
+  const value = vscode.workspace
+    .getConfiguration("ziit")
+    .get<number>(key, defaultValue);
+  return typeof value === "number" && value > 0 ? value : defaultValue;
+}
+
+/**
+ * Runs focus and break cycles with a countdown in the status bar. Completed
+ * focus cycles are counted per day and project in `globalState`.
+ */
+export class PomodoroManager {
+  private phase: PomodoroPhase = "idle";
+  private phaseEndsAt: number = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private statusBarItem: vscode.StatusBarItem;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private heartbeatManager: HeartbeatManager,
+  ) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99,
+    );
+    this.statusBarItem.command = "ziit.skipPomodoro";
+  }
+
+  public get currentPhase(): PomodoroPhase {
+    return this.phase;
+  }
+
+  public get completedToday(): number {
+    const today = this.getHistory()[toDateKey(new Date())] ?? {};
+    return Object.values(today).reduce((sum, count) => sum + count, 0);
+  }
+
+  public start(): void {
+    this.startPhase("work");
+  }
+
+  public skip(): void {
+    if (this.phase === "idle") {
+      this.start();
+    } else if (this.phase === "work") {
+      log("Pomodoro focus phase skipped");
+      this.startPhase("break");
+    } else {
+      log("Pomodoro break skipped");
+      this.startPhase("work");
+    }
+  }
+
+  public stop(): void {
+    if (this.phase === "idle") return;
+    log("Pomodoro stopped");
+    this.setPhase("idle");
+  }
+
+  private startPhase(phase: "work" | "break"): void {
+    const minutes =
+      phase === "work"
+        ? getMinutesSetting("pomodoro.workMinutes", 25)
+        : getMinutesSetting("pomodoro.breakMinutes", 5);
+    this.phaseEndsAt = Date.now() + minutes * 60 * 1000;
+    log(`Pomodoro ${phase} phase started for ${minutes} minutes`);
+    this.setPhase(phase);
+  }
+
+  private setPhase(phase: PomodoroPhase): void {
+    this.phase = phase;
+    const pauseDuringBreaks = vscode.workspace
+      .getConfiguration("ziit")
+      .get<boolean>("pomodoro.pauseHeartbeatsDuringBreaks", false);
+    this.heartbeatManager.setPaused(phase === "break" && pauseDuringBreaks);
+
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (phase === "idle") {
+      this.statusBarItem.hide();
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), 1000);
+    this.tick();
+    this.statusBarItem.show();
+  }
+
+  private tick(): void {
+    const remaining = this.phaseEndsAt - Date.now();
+    if (remaining <= 0) {
+      this.completePhase();
+      return;
+    }
+    const icon = this.phase === "work" ? "$(watch)" : "$(coffee)";
+    this.statusBarItem.text = `${icon} ${formatCountdown(remaining)}`;
+    this.statusBarItem.tooltip =
+      (this.phase === "work"
+        ? "Ziit: Focus time. Click to skip to the break."
+        : "Ziit: Break time. Click to skip the break.") +
+      `\nPomodoros completed today: ${this.completedToday}`;
+  }
+
+  private async completePhase(): Promise<void> {
+    if (this.phase === "work") {
+      this.recordCompletedPomodoro();
+      this.startPhase("break");
+      const choice = await vscode.window.showInformationMessage(
+        `Pomodoro complete! Take a ${getMinutesSetting("pomodoro.breakMinutes", 5)} minute break.`,
+        "Skip Break",
+        "Stop",
+      );
+      if (this.currentPhase !== "break") return;
+      if (choice === "Skip Break") this.startPhase("work");
+      if (choice === "Stop") this.stop();
+    } else {
+      this.setPhase("idle");
+      const choice = await vscode.window.showInformationMessage(
+        "Break is over.",
+        "Start Focus",
+      );
+      if (choice === "Start Focus" && this.currentPhase === "idle") {
+        this.start();
+      }
+    }
+  }
+
+  private recordCompletedPomodoro(): void {
+    const project = this.heartbeatManager.activeProjectName ?? "Unknown";
+    const history = this.getHistory();
+    const today = toDateKey(new Date());
+    const counts = history[today] ?? {};
+    counts[project] = (counts[project] ?? 0) + 1;
+    history[today] = counts;
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - HISTORY_DAYS);
+    const cutoffKey = toDateKey(cutoff);
+    for (const date of Object.keys(history)) {
+      if (date < cutoffKey) {
+        delete history[date];
+      }
+    }
+
+    this.context.globalState.update(COMPLETED_STATE_KEY, history);
+    log(`Pomodoro completed on project "${project}"`);
+  }
+
+  private getHistory(): PomodoroHistory {
+    return {
+      ...this.context.globalState.get<PomodoroHistory>(COMPLETED_STATE_KEY),
+    };
+  }
+
+  public dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.heartbeatManager.setPaused(false);
+    this.statusBarItem.dispose();
+  }
+}
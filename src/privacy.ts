@@ -0,0 +1,57 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import type { Heartbeat } from "./heartbeat";
+
+export type PrivacyLevel = "full" | "hideFileNames" | "hideBranch" | "hashAll";
+
+const SALT_STATE_KEY = "ziit.privacySalt";
+
+export function getPrivacyLevel(fileUri?: vscode.Uri): PrivacyLevel {
+  return vscode.workspace
+    .getConfiguration("ziit", fileUri)
+    .get<PrivacyLevel>("privacy", "full");
+}
+
+export function getPrivacySalt(context: vscode.ExtensionContext): string {
+  let salt = context.globalState.get<string>(SALT_STATE_KEY);
+  if (!salt) {
+    salt = crypto.randomBytes(16).toString("hex");
+    context.globalState.update(SALT_STATE_KEY, salt);
+  }
+  context.globalState.setKeysForSync([SALT_STATE_KEY]);
+  return salt;
+}
+
+function hashValue(value: string, salt: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${salt}:${value}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Applies the privacy level to a heartbeat before it is sent or queued, so
+ * nothing leaves the sanitised fields once the heartbeat has been built.
+ */
+export function sanitizeHeartbeat(
+  heartbeat: Heartbeat,
+  level: PrivacyLevel,
+  salt: string,
+): Heartbeat {
+  switch (level) {
+    case "hideFileNames":
+      return { ...heartbeat, file: undefined };
+    case "hideBranch":
+      return { ...heartbeat, branch: undefined };
+    case "hashAll":
+      return {
+        ...heartbeat,
+        project: heartbeat.project && hashValue(heartbeat.project, salt),
+        file: heartbeat.file && hashValue(heartbeat.file, salt),
+        branch: heartbeat.branch && hashValue(heartbeat.branch, salt),
+      };
+    default:
+      return heartbeat;
+  }
+}
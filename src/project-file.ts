@@ -0,0 +1,169 @@
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { log } from "./log";
+import { matchesAnyGlob, matchesGlob } from "./glob";
+
+export const PROJECT_FILE_NAMES = [".ziit", ".ziitproject"];
+
+interface ProjectFile {
+  path: string;
+  project?: string;
+  folders: Array<[string, string]>;
+  ignore: string[];
+}
+
+export interface ProjectFileMatch {
+  path: string;
+  project?: string;
+  ignored: boolean;
+}
+
+function parseProjectFile(
+  filePath: string,
+  content: string,
+): ProjectFile | null {
+  const projectFile: ProjectFile = { path: filePath, folders: [], ignore: [] };
+  const trimmed = content.trim();
+  if (!trimmed) return projectFile;
+
+  if (!trimmed.startsWith("{")) {
+    // Plain text files only carry the project name on their first line.
+    projectFile.project = trimmed.split(/\r?\n/)[0].trim() || undefined;
+    return projectFile;
+  }
+
+  try {
+    const data = JSON.parse(trimmed);
+    if (typeof data.project === "string" && data.project.trim()) {
+      projectFile.project = data.project.trim();
+    }
+    if (data.folders && typeof data.folders === "object") {
+      for (const [pattern, project] of Object.entries(data.folders)) {
+        if (typeof project === "string" && project.trim()) {
+          projectFile.folders.push([pattern, project.trim()]);
+        }
+      }
+    }
+    if (Array.isArray(data.ignore)) {
+      projectFile.ignore = data.ignore.filter(
+        (pattern: unknown): pattern is string => typeof pattern === "string",
+      );
+    }
+    return projectFile;
+  } catch (error) {
+    log(
+      `Error parsing project file ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    return null;
+  }
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class ProjectFileManager {
+  private projectFiles = new Map<string, Promise<ProjectFile | null>>();
+  private watcher: vscode.FileSystemWatcher;
+
+  constructor() {
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      `**/{${PROJECT_FILE_NAMES.join(",")}}`,
+    );
+    const reload = (uri: vscode.Uri) => {
+      log(`Project file changed, reloading: ${uri.fsPath}`);
+      this.projectFiles.clear();
+    };
+    this.watcher.onDidCreate(reload);
+    this.watcher.onDidChange(reload);
+    this.watcher.onDidDelete(reload);
+  }
+
+  public async resolve(
+    fileUri: vscode.Uri,
+    isDirectory: boolean = false,
+  ): Promise<ProjectFileMatch | undefined> {
+    if (fileUri.scheme !== "file") return undefined;
+
+    const projectFile = await this.findProjectFile(
+      isDirectory ? fileUri.fsPath : path.dirname(fileUri.fsPath),
+      vscode.workspace.getWorkspaceFolder(fileUri)?.uri.fsPath,
+    );
+    if (!projectFile) return undefined;
+
+    const relativePath = path
+      .relative(path.dirname(projectFile.path), fileUri.fsPath)
+      .split(path.sep)
+      .join("/");
+
+    if (matchesAnyGlob(relativePath, projectFile.ignore)) {
+      return { path: projectFile.path, ignored: true };
+    }
+
+    for (const [pattern, project] of projectFile.folders) {
+      if (matchesGlob(relativePath, pattern)) {
+        return { path: projectFile.path, project, ignored: false };
+      }
+    }
+
+    return {
+      path: projectFile.path,
+      project: projectFile.project,
+      ignored: false,
+    };
+  }
+
+  private findProjectFile(
+    directory: string,
+    workspaceRoot: string | undefined,
+  ): Promise<ProjectFile | null> {
+    let cached = this.projectFiles.get(directory);
+    if (!cached) {
+      cached = this.lookupProjectFile(directory, workspaceRoot);
+      this.projectFiles.set(directory, cached);
+    }
+    return cached;
+  }
+
+  private async lookupProjectFile(
+    directory: string,
+    workspaceRoot: string | undefined,
+  ): Promise<ProjectFile | null> {
+    for (const name of PROJECT_FILE_NAMES) {
+      const candidate = path.join(directory, name);
+      try {
+        const stat = await fs.stat(candidate);
+        if (!stat.isFile()) continue;
+        const content = await fs.readFile(candidate, "utf-8");
+        const projectFile = parseProjectFile(candidate, content);
+        if (projectFile) {
+          log(`Loaded project file ${candidate}`);
+          return projectFile;
+        }
+      } catch {
+        // Not present in this directory, keep looking.
+      }
+    }
+
+    const parent = path.dirname(directory);
+    const isRoot =
+      parent === directory ||
+      directory === workspaceRoot ||
+      (await pathExists(path.join(directory, ".git")));
+    if (isRoot) return null;
+
+    return this.findProjectFile(parent, workspaceRoot);
+  }
+
+  public dispose(): void {
+    this.watcher.dispose();
+  }
+}
@@ -0,0 +1,108 @@
+import * as vscode from "vscode";
+import { log } from "./log";
+
+const INITIAL_DELAY_MS = 5000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+export interface ReconnectState {
+  attempt: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Probes the Ziit instance with exponential backoff while the extension is
+ * offline and reports back once the instance is reachable again.
+ */
+export class ReconnectScheduler {
+  private attempt: number = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private isProbing: boolean = false;
+  private currentState: ReconnectState | null = null;
+  private stateEmitter = new vscode.EventEmitter<ReconnectState | null>();
+  public readonly onDidChangeState = this.stateEmitter.event;
+
+  constructor(
+    private probe: () => Promise<boolean>,
+    private onReconnect: () => void,
+  ) {}
+
+  public get state(): ReconnectState | null {
+    return this.currentState;
+  }
+
+  public get isRunning(): boolean {
+    return this.timer !== null || this.isProbing;
+  }
+
+  public start(): void {
+    if (this.isRunning) return;
+    this.attempt = 0;
+    this.scheduleNextAttempt();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.attempt > 0) {
+      this.attempt = 0;
+      this.currentState = null;
+      this.stateEmitter.fire(null);
+    }
+  }
+
+  private getDelay(): number {
+    const exponential = Math.min(
+      MAX_DELAY_MS,
+      INITIAL_DELAY_MS * 2 ** (this.attempt - 1),
+    );
+    return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+  }
+
+  private scheduleNextAttempt(): void {
+    this.attempt++;
+    const delay = this.getDelay();
+    log(
+      `Reconnect attempt ${this.attempt} scheduled in ${Math.round(delay / 1000)}s`,
+    );
+    this.currentState = {
+      attempt: this.attempt,
+      nextAttemptAt: Date.now() + delay,
+    };
+    this.stateEmitter.fire(this.currentState);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runAttempt();
+    }, delay);
+  }
+
+  private async runAttempt(): Promise<void> {
+    this.isProbing = true;
+    let reachable = false;
+    try {
+      reachable = await this.probe();
+    } catch (error) {
+      log(
+        `Health probe failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    } finally {
+      this.isProbing = false;
+    }
+
+    if (reachable) {
+      log(`Ziit instance reachable again after ${this.attempt} attempts`);
+      this.stop();
+      this.onReconnect();
+    } else if (this.attempt > 0) {
+      this.scheduleNextAttempt();
+    }
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.stateEmitter.dispose();
+  }
+}
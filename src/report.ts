@@ -0,0 +1,325 @@
+import * as vscode from "vscode";
+import { log } from "./log";
+import type { HeartbeatManager } from "./heartbeat";
+import {
+  aggregateSummaries,
+  formatDuration,
+  sortByDuration,
+  toDateKey,
+  TIME_RANGE_LABELS,
+  type StatsBreakdown,
+  type StatsSummary,
+  type StatsTimeRange,
+} from "./stats";
+
+export type ReportFormat = "markdown" | "csv" | "json";
+
+interface ReportRange {
+  label: string;
+  timeRange: StatsTimeRange;
+  /** Inclusive date bounds for custom ranges, as YYYY-MM-DD. */
+  from?: string;
+  to?: string;
+}
+
+interface Report {
+  range: ReportRange;
+  generatedAt: Date;
+  days: StatsSummary[];
+  breakdown: StatsBreakdown;
+}
+
+const BREAKDOWN_SECTIONS: Array<{
+  key: "projects" | "languages" | "editors" | "os";
+  title: string;
+  column: string;
+}> = [
+  { key: "projects", title: "Projects", column: "Project" },
+  { key: "languages", title: "Languages", column: "Language" },
+  { key: "editors", title: "Editors", column: "Editor" },
+  { key: "os", title: "Operating Systems", column: "OS" },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateDate(value: string): string | undefined {
+  if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    return "Enter a date as YYYY-MM-DD";
+  }
+  return undefined;
+}
+
+async function pickRange(): Promise<ReportRange | undefined> {
+  const items: Array<vscode.QuickPickItem & { timeRange?: StatsTimeRange }> = [
+    ...(Object.keys(TIME_RANGE_LABELS) as StatsTimeRange[]).map(
+      (timeRange) => ({ label: TIME_RANGE_LABELS[timeRange], timeRange }),
+    ),
+    {
+      label: "Custom Range…",
+      description: "Any days within the last month",
+    },
+  ];
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select the time range for the report",
+  });
+  if (!picked) return undefined;
+  if (picked.timeRange) {
+    return { label: picked.label, timeRange: picked.timeRange };
+  }
+
+  const today = toDateKey(new Date());
+  const from = await vscode.window.showInputBox({
+    prompt: "First day of the report (YYYY-MM-DD)",
+    value: today,
+    validateInput: validateDate,
+  });
+  if (!from) return undefined;
+  const to = await vscode.window.showInputBox({
+    prompt: "Last day of the report (YYYY-MM-DD)",
+    value: today,
+    validateInput: (value) =>
+      validateDate(value) ??
+      (value < from ? "The last day must not be before the first" : undefined),
+  });
+  if (!to) return undefined;
+
+  // The stats endpoint has no arbitrary ranges, so the month is fetched and
+  // narrowed down to the requested days.
+  return { label: `${from} to ${to}`, timeRange: "month", from, to };
+}
+
+async function pickFormat(): Promise<ReportFormat | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Markdown Report",
+        description: "Open in a new editor",
+        format: "markdown" as const,
+      },
+      {
+        label: "CSV",
+        description: "Save for timesheets",
+        format: "csv" as const,
+      },
+      {
+        label: "JSON",
+        description: "Save the raw data",
+        format: "json" as const,
+      },
+    ],
+    { placeHolder: "Select the report format" },
+  );
+  return picked?.format;
+}
+
+function getSummaryDate(summary: StatsSummary): string {
+  return summary.date.slice(0, 10);
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function formatShare(seconds: number, total: number): string {
+  return total > 0 ? `${Math.round((seconds / total) * 100)}%` : "0%";
+}
+
+function formatMarkdownReport(report: Report): string {
+  const { breakdown } = report;
+  const lines = [
+    `# Ziit Report: ${report.range.label}`,
+    "",
+    `_Generated ${report.generatedAt.toLocaleString()}_`,
+    "",
+    `**Total:** ${formatDuration(breakdown.totalSeconds)}`,
+    "",
+  ];
+
+  for (const section of BREAKDOWN_SECTIONS) {
+    const entries = sortByDuration(breakdown[section.key]);
+    if (entries.length === 0) continue;
+    lines.push(
+      `## ${section.title}`,
+      "",
+      `| ${section.column} | Time | Share |`,
+      "| --- | --- | ---: |",
+      ...entries.map(
+        ([name, seconds]) =>
+          `| ${escapeTableCell(name)} | ${formatDuration(seconds)} | ${formatShare(seconds, breakdown.totalSeconds)} |`,
+      ),
+      "",
+    );
+  }
+
+  const days = report.days.filter((day) => day.totalSeconds > 0);
+  if (days.length > 1) {
+    lines.push(
+      "## Days",
+      "",
+      "| Date | Time | Top Project |",
+      "| --- | --- | --- |",
+      ...days.map((day) => {
+        const [topProject] = sortByDuration(day.projects ?? {});
+        return `| ${getSummaryDate(day)} | ${formatDuration(day.totalSeconds)} | ${escapeTableCell(topProject?.[0] ?? "")} |`;
+      }),
+      "",
+    );
+  }
+
+  return lines.join("\n");
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per day, breakdown type and entry, with the duration in seconds
+ * and decimal hours so it can be pasted into timesheets.
+ */
+function formatCsvReport(report: Report): string {
+  const rows = [["date", "type", "name", "seconds", "hours"]];
+  for (const day of report.days) {
+    const date = getSummaryDate(day);
+    rows.push([
+      date,
+      "total",
+      "",
+      String(day.totalSeconds),
+      (day.totalSeconds / 3600).toFixed(2),
+    ]);
+    for (const section of BREAKDOWN_SECTIONS) {
+      for (const [name, seconds] of sortByDuration(day[section.key] ?? {})) {
+        rows.push([
+          date,
+          section.key,
+          name,
+          String(seconds),
+          (seconds / 3600).toFixed(2),
+        ]);
+      }
+    }
+  }
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\n") + "\n";
+}
+
+function formatJsonReport(report: Report): string {
+  const { hourly, ...totals } = report.breakdown;
+  return (
+    JSON.stringify(
+      {
+        range: report.range.label,
+        timeRange: report.range.timeRange,
+        from: report.range.from,
+        to: report.range.to,
+        generatedAt: report.generatedAt.toISOString(),
+        ...totals,
+        hourlySeconds: hourly,
+        days: report.days,
+      },
+      null,
+      2,
+    ) + "\n"
+  );
+}
+
+async function saveReport(
+  report: Report,
+  format: "csv" | "json",
+): Promise<void> {
+  const fileName = `ziit-report-${report.range.label
+    .toLowerCase()
+    .replace(/[^\w-]+/g, "-")}.${format}`;
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: defaultFolder
+      ? vscode.Uri.joinPath(defaultFolder, fileName)
+      : undefined,
+    filters:
+      format === "csv" ? { "CSV Files": ["csv"] } : { "JSON Files": ["json"] },
+    saveLabel: "Save Report",
+  });
+  if (!target) return;
+
+  const content =
+    format === "csv" ? formatCsvReport(report) : formatJsonReport(report);
+  await vscode.workspace.fs.writeFile(target, Buffer.from(content, "utf8"));
+  log(`Saved ${format.toUpperCase()} report to ${target.fsPath}`);
+
+  const choice = await vscode.window.showInformationMessage(
+    `Ziit report saved to ${target.fsPath}`,
+    "Open",
+  );
+  if (choice === "Open") {
+    await vscode.window.showTextDocument(target);
+  }
+}
+
+/**
+ * Asks for a time range and format, then opens the report as Markdown or
+ * saves it as CSV or JSON.
+ */
+export async function generateReport(
+  heartbeatManager: HeartbeatManager,
+): Promise<void> {
+  const range = await pickRange();
+  if (!range) return;
+  const format = await pickFormat();
+  if (!format) return;
+
+  let days: StatsSummary[];
+  try {
+    const response = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Ziit: Generating report…",
+      },
+      () => heartbeatManager.fetchStats(range.timeRange),
+    );
+    if (!response) {
+      vscode.window.showErrorMessage(
+        "Set an API key to generate a Ziit report.",
+      );
+      return;
+    }
+    days = response.summaries ?? [];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`Error generating report: ${message}`);
+    vscode.window.showErrorMessage(
+      `Could not generate Ziit report: ${message}`,
+    );
+    return;
+  }
+
+  if (range.from && range.to) {
+    const { from, to } = range;
+    const earliest = days.map(getSummaryDate).sort()[0];
+    if (earliest && from < earliest) {
+      vscode.window.showWarningMessage(
+        `Ziit only returned stats from ${earliest} on, earlier days are missing from the report.`,
+      );
+    }
+    days = days.filter((day) => {
+      const date = getSummaryDate(day);
+      return date >= from && date <= to;
+    });
+  }
+
+  const report: Report = {
+    range,
+    generatedAt: new Date(),
+    days,
+    breakdown: aggregateSummaries(days),
+  };
+
+  if (format === "markdown") {
+    const document = await vscode.workspace.openTextDocument({
+      content: formatMarkdownReport(report),
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document);
+    return;
+  }
+  await saveReport(report, format);
+}
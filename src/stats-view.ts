@@ -0,0 +1,223 @@
+import * as vscode from "vscode";
+import { log } from "./log";
+import { HeartbeatManager } from "./heartbeat";
+import {
+  aggregateSummaries,
+  formatDuration,
+  sortByDuration,
+  TIME_RANGE_LABELS,
+  type StatsBreakdown,
+  type StatsResponse,
+  type StatsTimeRange,
+} from "./stats";
+
+const TIME_RANGE_STATE_KEY = "ziit.statsTimeRange";
+
+type StatsNode =
+  | { kind: "message"; label: string }
+  | { kind: "total"; seconds: number }
+  | {
+      kind: "group";
+      label: string;
+      icon: string;
+      entries: Array<[string, number]>;
+    }
+  | { kind: "entry"; label: string; seconds: number; total: number };
+
+export class StatsViewProvider implements vscode.TreeDataProvider<StatsNode> {
+  private changeEmitter = new vscode.EventEmitter<StatsNode | undefined>();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+  private timeRange: StatsTimeRange;
+  private breakdown: StatsBreakdown | null = null;
+  private errorMessage: string | null = null;
+  private loadingTimeRange: StatsTimeRange | null = null;
+  private requestId: number = 0;
+  private treeView: vscode.TreeView<StatsNode>;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private heartbeatManager: HeartbeatManager,
+  ) {
+    this.timeRange = context.globalState.get<StatsTimeRange>(
+      TIME_RANGE_STATE_KEY,
+      "today",
+    );
+
+    this.treeView = vscode.window.createTreeView("ziit.stats", {
+      treeDataProvider: this,
+    });
+    this.updateDescription();
+
+    this.disposables.push(
+      this.treeView,
+      this.changeEmitter,
+      this.treeView.onDidChangeVisibility((event) => {
+        if (event.visible) {
+          this.refresh();
+        }
+      }),
+      heartbeatManager.onDidUpdateStats((response) => {
+        if (this.timeRange === "today") {
+          this.setResponse(response);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Loads the stats for the selected range. Responses for a range that was
+   * switched away from meanwhile are dropped.
+   */
+  public async refresh(): Promise<void> {
+    if (this.loadingTimeRange === this.timeRange) return;
+    const requestId = ++this.requestId;
+    this.loadingTimeRange = this.timeRange;
+    try {
+      const response = await this.heartbeatManager.fetchStats(this.timeRange);
+      if (requestId !== this.requestId) return;
+      if (response) {
+        this.setResponse(response);
+      } else {
+        this.breakdown = null;
+        this.errorMessage = "Set an API key to see your stats.";
+        this.changeEmitter.fire(undefined);
+      }
+    } catch (error) {
+      if (requestId !== this.requestId) return;
+      const message = error instanceof Error ? error.message : String(error);
+      log(`Error loading stats view: ${message}`);
+      this.breakdown = null;
+      this.errorMessage = "Could not load stats from the Ziit instance.";
+      this.changeEmitter.fire(undefined);
+    } finally {
+      if (requestId === this.requestId) {
+        this.loadingTimeRange = null;
+      }
+    }
+  }
+
+  public async selectTimeRange(): Promise<void> {
+    const items = (Object.keys(TIME_RANGE_LABELS) as StatsTimeRange[]).map(
+      (range) => ({
+        label: TIME_RANGE_LABELS[range],
+        description: range === this.timeRange ? "current" : undefined,
+        range,
+      }),
+    );
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: "Select the time range for Ziit stats",
+    });
+    if (!picked || picked.range === this.timeRange) return;
+
+    this.timeRange = picked.range;
+    await this.context.globalState.update(TIME_RANGE_STATE_KEY, picked.range);
+    this.updateDescription();
+    this.breakdown = null;
+    this.errorMessage = null;
+    this.changeEmitter.fire(undefined);
+    await this.refresh();
+  }
+
+  private setResponse(response: StatsResponse): void {
+    this.breakdown = aggregateSummaries(response.summaries ?? []);
+    this.errorMessage = null;
+    this.changeEmitter.fire(undefined);
+  }
+
+  private updateDescription(): void {
+    this.treeView.description = TIME_RANGE_LABELS[this.timeRange];
+  }
+
+  public getTreeItem(node: StatsNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "message": {
+        const item = new vscode.TreeItem(node.label);
+        item.iconPath = new vscode.ThemeIcon("info");
+        return item;
+      }
+      case "total": {
+        const item = new vscode.TreeItem("Total");
+        item.description = formatDuration(node.seconds);
+        item.iconPath = new vscode.ThemeIcon("clock");
+        return item;
+      }
+      case "group": {
+        const item = new vscode.TreeItem(
+          node.label,
+          node.entries.length > 0
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : vscode.TreeItemCollapsibleState.None,
+        );
+        item.iconPath = new vscode.ThemeIcon(node.icon);
+        if (node.entries.length === 0) {
+          item.description = "No activity";
+        }
+        return item;
+      }
+      case "entry": {
+        const item = new vscode.TreeItem(node.label);
+        const percent =
+          node.total > 0 ? Math.round((node.seconds / node.total) * 100) : 0;
+        item.description = `${formatDuration(node.seconds)} (${percent}%)`;
+        return item;
+      }
+    }
+  }
+
+  public getChildren(node?: StatsNode): StatsNode[] {
+    if (node) {
+      if (node.kind !== "group") return [];
+      const total = node.entries.reduce((sum, [, seconds]) => sum + seconds, 0);
+      return node.entries.map(([label, seconds]) => ({
+        kind: "entry",
+        label,
+        seconds,
+        total,
+      }));
+    }
+
+    if (this.errorMessage) {
+      return [{ kind: "message", label: this.errorMessage }];
+    }
+    if (!this.breakdown) {
+      if (this.loadingTimeRange === null) {
+        this.refresh();
+      }
+      return [{ kind: "message", label: "Loading stats..." }];
+    }
+
+    const hours: Array<[string, number]> = this.breakdown.hourly
+      .map((seconds, hour): [string, number] => [
+        `${hour.toString().padStart(2, "0")}:00`,
+        seconds,
+      ])
+      .filter(([, seconds]) => seconds > 0);
+
+    return [
+      { kind: "total", seconds: this.breakdown.totalSeconds },
+      {
+        kind: "group",
+        label: "Projects",
+        icon: "project",
+        entries: sortByDuration(this.breakdown.projects),
+      },
+      {
+        kind: "group",
+        label: "Languages",
+        icon: "code",
+        entries: sortByDuration(this.breakdown.languages),
+      },
+      {
+        kind: "group",
+        label: "Hours",
+        icon: "history",
+        entries: hours,
+      },
+    ];
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
@@ -0,0 +1,95 @@
+export type StatsTimeRange = "today" | "week" | "month";
+
+export type DurationStyle = "long" | "short";
+
+export interface StatsSummary {
+  date: string;
+  totalSeconds: number;
+  projects: Record<string, number>;
+  languages: Record<string, number>;
+  editors: Record<string, number>;
+  os: Record<string, number>;
+  hourlyData: Array<{ seconds: number }>;
+}
+
+export interface StatsResponse {
+  summaries: StatsSummary[];
+  timezone: string;
+}
+
+export interface StatsBreakdown {
+  totalSeconds: number;
+  projects: Record<string, number>;
+  languages: Record<string, number>;
+  editors: Record<string, number>;
+  os: Record<string, number>;
+  hourly: number[];
+}
+
+export const TIME_RANGE_LABELS: Record<StatsTimeRange, string> = {
+  today: "Today",
+  week: "This Week",
+  month: "This Month",
+};
+
+function addInto(
+  target: Record<string, number>,
+  source: Record<string, number> | undefined,
+): void {
+  if (!source) return;
+  for (const [name, seconds] of Object.entries(source)) {
+    target[name] = (target[name] ?? 0) + seconds;
+  }
+}
+
+export function aggregateSummaries(summaries: StatsSummary[]): StatsBreakdown {
+  const breakdown: StatsBreakdown = {
+    totalSeconds: 0,
+    projects: {},
+    languages: {},
+    editors: {},
+    os: {},
+    hourly: new Array(24).fill(0),
+  };
+
+  for (const summary of summaries) {
+    breakdown.totalSeconds += summary.totalSeconds;
+    addInto(breakdown.projects, summary.projects);
+    addInto(breakdown.languages, summary.languages);
+    addInto(breakdown.editors, summary.editors);
+    addInto(breakdown.os, summary.os);
+    summary.hourlyData?.forEach((hour, index) => {
+      if (index < 24) {
+        breakdown.hourly[index] += hour.seconds;
+      }
+    });
+  }
+
+  return breakdown;
+}
+
+export function sortByDuration(
+  entries: Record<string, number>,
+): Array<[string, number]> {
+  return Object.entries(entries)
+    .filter(([, seconds]) => seconds > 0)
+    .sort((a, b) => b[1] - a[1]);
+}
+
+export function formatDuration(
+  totalSeconds: number,
+  style: DurationStyle = "long",
+): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (style === "short") {
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+  return `${hours} hrs ${minutes} mins`;
+}
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -1,4 +1,44 @@
 import * as vscode from "vscode";
+import type { ReconnectState } from "./reconnect";
+import {
+  formatDuration,
+  sortByDuration,
+  type DurationStyle,
+  type StatsSummary
+} from "./stats";
+
+const DEFAULT_FORMAT = "$(clock) {today} {goal}";
+const DEFAULT_PROJECT_FORMAT = "$(project) {project} {projectToday}";
+const TOOLTIP_TOP_ENTRIES = 5;
+const SPARKLINE_BLOCKS = "▁▂▃▄▅▆▇█";
+
+function formatSparkline(values: number[]): string {
+  const max = Math.max(...values);
+  return values
+    .map((value) =>
+      max > 0
+        ? SPARKLINE_BLOCKS[
+            Math.min(
+              SPARKLINE_BLOCKS.length - 1,
+              Math.floor((value / max) * SPARKLINE_BLOCKS.length)
+            )
+          ]
+        : SPARKLINE_BLOCKS[0]
+    )
+    .join("");
+}
+
+function renderTemplate(
+  template: string,
+  values: Record<string, string | undefined>
+): string {
+  return template
+    .replace(/\{(\w+)\}/g, (token, name: string) =>
+      Object.hasOwn(values, name) ? values[name] ?? "" : token
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
 
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
@@ -8,6 +48,18 @@ export class StatusBarManager {
   private updateInterval: NodeJS.Timeout | null = null;
   private isOnline: boolean = true;
   private hasValidApiKey: boolean = true;
+  private reconnectState: ReconnectState | null = null;
+  private instanceName: string | undefined;
+  private goalProgress: string | undefined;
+  private goalDetails: string[] = [];
+  private projectItem: vscode.StatusBarItem;
+  private project: string | undefined;
+  private language: string | undefined;
+  private todaySummary: StatsSummary | undefined;
+  private queuedCount: number = 0;
+  private rejectedCount: number = 0;
+  private lastSyncTime: number | undefined;
+  private isLocalMode: boolean = false;
 
   constructor() {
     this.statusBarItem = vscode.window.createStatusBarItem(
@@ -15,7 +67,11 @@ export class StatusBarManager {
       100
     );
     this.statusBarItem.command = "ziit.openDashboard";
-    this.statusBarItem.show();
+    this.projectItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Right,
+      100
+    );
+    this.projectItem.command = "ziit.openDashboard";
 
     const config = vscode.workspace.getConfiguration("ziit");
     if (config.get<boolean>("statusBarEnabled", true)) {
@@ -31,6 +87,12 @@ export class StatusBarManager {
           this.statusBarItem.hide();
         }
       }
+      if (
+        e.affectsConfiguration("ziit.statusBarEnabled") ||
+        e.affectsConfiguration("ziit.statusBar")
+      ) {
+        this.updateStatusBar();
+      }
     });
 
     this.setupUpdateInterval();
@@ -72,9 +134,66 @@ export class StatusBarManager {
     this.updateStatusBar(true);
   }
 
+  public setInstanceName(instanceName: string | undefined): void {
+    this.instanceName = instanceName;
+    this.updateStatusBar(true);
+  }
+
+  public setTodaySummary(summary: StatsSummary | undefined): void {
+    this.todaySummary = summary;
+    this.updateStatusBar();
+  }
+
+  public setLastSyncTime(time: number): void {
+    this.lastSyncTime = time;
+    this.updateStatusBar();
+  }
+
+  public setLocalMode(isLocalMode: boolean): void {
+    this.isLocalMode = isLocalMode;
+    this.updateStatusBar(true);
+  }
+
+  public setActivity(
+    project: string | undefined,
+    language: string | undefined
+  ): void {
+    if (this.project === project && this.language === language) return;
+    this.project = project;
+    this.language = language;
+    this.updateStatusBar();
+  }
+
+  public setQueuedCount(queuedCount: number): void {
+    if (this.queuedCount === queuedCount) return;
+    this.queuedCount = queuedCount;
+    this.updateStatusBar();
+  }
+
+  public setRejectedCount(rejectedCount: number): void {
+    if (this.rejectedCount === rejectedCount) return;
+    this.rejectedCount = rejectedCount;
+    this.updateStatusBar();
+  }
+
+  public setGoalProgress(
+    progress: string | undefined,
+    details: string[]
+  ): void {
+    this.goalProgress = progress;
+    this.goalDetails = details;
+    this.updateStatusBar();
+  }
+
+  public setReconnectState(state: ReconnectState | null): void {
+    this.reconnectState = state;
+    this.updateStatusBar();
+  }
+
   private updateStatusBar(forceUpdate: boolean = false): void {
     const config = vscode.workspace.getConfiguration("ziit");
     if (!config.get<boolean>("statusBarEnabled", true)) {
+      this.projectItem.hide();
       return;
     }
 
@@ -82,20 +201,41 @@ export class StatusBarManager {
       this.statusBarItem.text = "$(error) Unconfigured";
       this.statusBarItem.tooltip = "Invalid or missing API key. Click to configure.";
       this.statusBarItem.color = new vscode.ThemeColor("errorForeground");
+      this.projectItem.hide();
       return;
     }
 
-    let displaySeconds = this.totalSeconds;
+    let elapsedSeconds = 0;
 
     if (this.isTracking) {
-      const elapsedSeconds = Math.floor(
-        (Date.now() - this.trackingStartTime) / 1000
-      );
-      displaySeconds += elapsedSeconds;
+      elapsedSeconds = Math.floor((Date.now() - this.trackingStartTime) / 1000);
     }
 
-    const hours = Math.floor(displaySeconds / 3600);
-    const minutes = Math.floor((displaySeconds % 3600) / 60);
+    const durationStyle = config.get<DurationStyle>(
+      "statusBar.durationStyle",
+      "long"
+    );
+    const projectSeconds = this.project
+      ? (this.todaySummary?.projects?.[this.project] ?? 0) + elapsedSeconds
+      : undefined;
+    const values: Record<string, string | undefined> = {
+      today: formatDuration(this.totalSeconds + elapsedSeconds, durationStyle),
+      project: this.project,
+      projectToday:
+        projectSeconds === undefined
+          ? undefined
+          : formatDuration(projectSeconds, durationStyle),
+      language: this.language,
+      queued: this.queuedCount > 0 ? `${this.queuedCount} queued` : undefined,
+      goal: this.goalProgress
+    };
+    const text = renderTemplate(
+      config.get<string>("statusBar.format", DEFAULT_FORMAT),
+      values
+    );
+    const instanceSuffix = this.instanceName ? ` · ${this.instanceName}` : "";
+
+    this.updateProjectItem(config, values);
 
     if (forceUpdate) {
       this.statusBarItem.color = new vscode.ThemeColor(
@@ -107,21 +247,140 @@ export class StatusBarManager {
     }
 
     if (!this.isOnline) {
-      this.statusBarItem.text = `$(sync~spin) ${hours} hrs ${minutes} mins (offline)`;
-      this.statusBarItem.tooltip = "Working offline. Changes will be synced when online.";
+      const offlineText = text.replace(/^\$\([^)]*\)\s*/, "");
+      this.statusBarItem.text = `$(sync~spin) ${offlineText} (offline)${instanceSuffix}`;
+      let status = "Working offline. Changes will be synced when online.";
+      if (this.reconnectState) {
+        const nextAttempt = new Date(
+          this.reconnectState.nextAttemptAt
+        ).toLocaleTimeString();
+        status += ` Reconnect attempt ${this.reconnectState.attempt} at ${nextAttempt}.`;
+      }
+      this.statusBarItem.tooltip = this.buildTooltip(
+        status,
+        values.today ?? "",
+        durationStyle
+      );
       this.statusBarItem.color = new vscode.ThemeColor("statusBarItem.warningForeground");
       return;
     }
 
-    this.statusBarItem.text = `$(clock) ${hours} hrs ${minutes} mins`;
-    this.statusBarItem.tooltip = "Ziit: Today's coding time. Click to open dashboard.";
+    this.statusBarItem.text = `${text}${instanceSuffix}`;
+    this.statusBarItem.tooltip = this.buildTooltip(
+      this.isLocalMode
+        ? "Today's coding time, tracked locally. Nothing is sent to a Ziit instance."
+        : "Today's coding time. Click to open the dashboard.",
+      values.today ?? "",
+      durationStyle
+    );
     this.statusBarItem.color = undefined;
   }
 
+  private buildTooltip(
+    status: string,
+    today: string,
+    durationStyle: DurationStyle
+  ): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    tooltip.isTrusted = {
+      enabledCommands: [
+        "ziit.openDashboard",
+        "ziit.showOutput",
+        "ziit.resendRejectedHeartbeats"
+      ]
+    };
+    tooltip.supportThemeIcons = true;
+
+    tooltip.appendMarkdown(`**Ziit** · Today: ${today}\n\n`);
+    tooltip.appendText(status);
+    tooltip.appendMarkdown("\n\n");
+
+    const appendTop = (title: string, entries: Record<string, number>) => {
+      const top = sortByDuration(entries).slice(0, TOOLTIP_TOP_ENTRIES);
+      if (top.length === 0) return;
+      tooltip.appendMarkdown(`**${title}**\n\n`);
+      for (const [name, seconds] of top) {
+        tooltip.appendMarkdown("- ");
+        tooltip.appendText(name);
+        tooltip.appendMarkdown(` · ${formatDuration(seconds, durationStyle)}\n`);
+      }
+      tooltip.appendMarkdown("\n");
+    };
+    if (this.todaySummary) {
+      appendTop("Projects", this.todaySummary.projects ?? {});
+      appendTop("Languages", this.todaySummary.languages ?? {});
+
+      const hourly = new Array(24).fill(0);
+      this.todaySummary.hourlyData?.forEach((hour, index) => {
+        if (index < 24) {
+          hourly[index] = hour.seconds;
+        }
+      });
+      if (hourly.some((seconds) => seconds > 0)) {
+        tooltip.appendMarkdown(
+          `**Activity** \`${formatSparkline(hourly)}\` 0–23h\n\n`
+        );
+      }
+    }
+
+    if (this.goalDetails.length > 0) {
+      tooltip.appendMarkdown("**Goals**\n\n");
+      for (const line of this.goalDetails) {
+        tooltip.appendMarkdown("- ");
+        tooltip.appendText(line);
+        tooltip.appendMarkdown("\n");
+      }
+      tooltip.appendMarkdown("\n");
+    }
+
+    if (this.isLocalMode) {
+      tooltip.appendMarkdown(
+        "Local mode: heartbeats are only stored on this machine\n\n"
+      );
+    } else {
+      const lastSync = this.lastSyncTime
+        ? new Date(this.lastSyncTime).toLocaleTimeString()
+        : "not yet";
+      tooltip.appendMarkdown(
+        `Last sync: ${lastSync} · ${this.queuedCount} heartbeats queued offline\n\n`
+      );
+      if (this.rejectedCount > 0) {
+        tooltip.appendMarkdown(
+          `$(warning) ${this.rejectedCount} heartbeats rejected by the server · [Resend](command:ziit.resendRejectedHeartbeats)\n\n`
+        );
+      }
+    }
+    if (this.instanceName && !this.isLocalMode) {
+      tooltip.appendText(`Reporting to instance "${this.instanceName}".`);
+      tooltip.appendMarkdown("\n\n");
+    }
+    tooltip.appendMarkdown(
+      "[$(link-external) Open Dashboard](command:ziit.openDashboard) · [$(output) Show Output](command:ziit.showOutput)"
+    );
+    return tooltip;
+  }
+
+  private updateProjectItem(
+    config: vscode.WorkspaceConfiguration,
+    values: Record<string, string | undefined>
+  ): void {
+    if (!config.get<boolean>("statusBar.showProjectItem", false) || !this.project) {
+      this.projectItem.hide();
+      return;
+    }
+    this.projectItem.text = renderTemplate(
+      config.get<string>("statusBar.projectFormat", DEFAULT_PROJECT_FORMAT),
+      values
+    );
+    this.projectItem.tooltip = `Ziit: Time on ${this.project} today. Click to open dashboard.`;
+    this.projectItem.show();
+  }
+
   public dispose(): void {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
     }
     this.statusBarItem.dispose();
+    this.projectItem.dispose();
   }
 }
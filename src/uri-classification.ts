@@ -0,0 +1,104 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+export type UriKind =
+  | "file"
+  | "untitled"
+  | "remote"
+  | "virtual"
+  | "liveShare"
+  | "other";
+
+export const DEFAULT_IGNORED_SCHEMES = [
+  "git",
+  "gitlens",
+  "output",
+  "vscode-scm",
+  "vscode-settings",
+  "comment",
+  "walkThrough",
+  "walkThroughSnippet",
+];
+
+export interface UriClassification {
+  kind: UriKind;
+  /** Why the URI must not be tracked, `undefined` when it may be tracked. */
+  ignoredReason?: string;
+  fileName: string;
+  /**
+   * Project name derived from the URI itself. Only set for documents that
+   * cannot be resolved through git or a project file on the local disk.
+   */
+  project?: string;
+}
+
+const SCHEME_KINDS: Record<string, UriKind> = {
+  file: "file",
+  untitled: "untitled",
+  "vscode-remote": "remote",
+  "vscode-vfs": "virtual",
+  vsls: "liveShare",
+};
+
+function getWorkspaceFolderName(uri: vscode.Uri): string | undefined {
+  return (
+    vscode.workspace.getWorkspaceFolder(uri)?.name ??
+    vscode.workspace.workspaceFolders?.[0]?.name
+  );
+}
+
+function getRemoteProject(uri: vscode.Uri): string | undefined {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+  if (workspaceFolder) return workspaceFolder.name;
+  // "ssh-remote+my-host" becomes "my-host".
+  const authority = decodeURIComponent(uri.authority);
+  return authority.slice(authority.indexOf("+") + 1) || undefined;
+}
+
+function getVirtualProject(uri: vscode.Uri): string | undefined {
+  // vscode-vfs://github/<owner>/<repo>/<path>
+  const [, repository] = uri.path.split("/").filter(Boolean);
+  return repository ?? getWorkspaceFolderName(uri);
+}
+
+function getIgnoredSchemes(): string[] {
+  return vscode.workspace
+    .getConfiguration("ziit")
+    .get<string[]>("ignoredSchemes", DEFAULT_IGNORED_SCHEMES);
+}
+
+/**
+ * Decides whether a document URI is tracked and how its file name and
+ * project are derived, based on its scheme.
+ */
+export function classifyUri(uri: vscode.Uri): UriClassification {
+  const kind = SCHEME_KINDS[uri.scheme] ?? "other";
+  const fileName = path.posix.basename(uri.path) || uri.path;
+
+  if (getIgnoredSchemes().includes(uri.scheme)) {
+    return {
+      kind,
+      fileName,
+      ignoredReason: `scheme "${uri.scheme}" is in ziit.ignoredSchemes`,
+    };
+  }
+
+  switch (kind) {
+    case "file":
+      return { kind, fileName: path.basename(uri.fsPath) };
+    case "remote":
+      return { kind, fileName, project: getRemoteProject(uri) };
+    case "virtual":
+      return { kind, fileName, project: getVirtualProject(uri) };
+    case "other":
+      // Extensions use their own schemes for previews, generated views and
+      // the like, none of which is work on the project.
+      return {
+        kind,
+        fileName,
+        ignoredReason: `scheme "${uri.scheme}" is not tracked`,
+      };
+    default:
+      return { kind, fileName, project: getWorkspaceFolderName(uri) };
+  }
+}